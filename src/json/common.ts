@@ -1,4 +1,4 @@
-import { type SQL, sql } from 'drizzle-orm'
+import { type SQL, type SQLWrapper, sql } from 'drizzle-orm'
 import type { AnyPgColumn } from 'drizzle-orm/pg-core'
 
 export type SQLJSONValue<T = any> =
@@ -32,8 +32,94 @@ export type SQLJSONExtractType<Source extends SQLJSONValue> =
       ? Source['_']['type']
       : never
 
+/**
+ * Recursively make all properties of a JSON type optional.
+ * Arrays keep being arrays of partial elements.
+ */
+export type SQLJSONDeepPartial<Type> = Type extends readonly (infer Element)[]
+  ? Array<SQLJSONDeepPartial<Element>>
+  : Type extends object
+    ? { [K in keyof Type]?: SQLJSONDeepPartial<Type[K]> }
+    : Type
+
+/**
+ * A JSON value that may be given as an SQL expression or as a plain JS value,
+ * where any nested property or element can itself be an SQL expression.
+ */
+export type SQLJSONMixedValue<Type> =
+  | SQL<Type>
+  | (Type extends readonly (infer Element)[]
+      ? Array<SQLJSONMixedValue<Element>>
+      : Type extends object
+        ? { [K in keyof Type]: SQLJSONMixedValue<Type[K]> }
+        : Type)
+
 export const normalizeNullish = <T>(
   value: SQLJSONValue<T>,
 ): SQLJSONIsNullish<T> extends true ? SQL<T> : never => {
   return sql<T>`coalesce(${value}, 'null'::jsonb)` as any
 }
+
+/**
+ * Render an array index as a jsonpath subscript,
+ * negative indices count from the end (`-1` is `last`).
+ */
+export function buildJSONPathIndex(index: number): string {
+  if (!Number.isInteger(index))
+    throw new TypeError(`Invalid jsonpath array index: ${index}`)
+  if (index >= 0) return `${index}`
+  return index === -1 ? 'last' : `last - ${-index - 1}`
+}
+
+// Up to nine digits, so the index always fits an `int` operand
+const INDEX_PATTERN = /^-?\d{1,9}$/
+
+/**
+ * Whether a path segment may address an array element (negative ones count from the end).
+ */
+export function isIndexSegment(segment: string): boolean {
+  return INDEX_PATTERN.test(segment)
+}
+
+/**
+ * Build an extraction expression for the given path.
+ * Consecutive object keys are grouped into a single `jsonb_extract_path` call.
+ * Integer-like segments use the `->` operator with an integer operand, so negative
+ * indices are resolved from the end of the array, falling back to the text key
+ * so integer-like object keys like `"2024"` still match
+ * (each operand yields NULL on the other kind of container).
+ *
+ * @param source The JSONB value to extract from
+ * @param path The path segments to follow
+ * @param asText Whether the last step should return `text` instead of `jsonb`
+ */
+export function buildExtractPath(
+  source: SQLWrapper,
+  path: string[],
+  asText = false,
+): SQL {
+  if (path.length === 0)
+    return asText ? sql`(${source} #>> '{}')` : sql`${source}`
+
+  const steps: Array<string[] | string> = []
+  for (const segment of path) {
+    const last = steps[steps.length - 1]
+    if (isIndexSegment(segment)) steps.push(segment)
+    else if (Array.isArray(last)) last.push(segment)
+    else steps.push([segment])
+  }
+
+  return steps.reduce<SQL>((target, step, index) => {
+    const text = asText && index === steps.length - 1
+    if (typeof step === 'string') {
+      const operator = sql.raw(text ? '->>' : '->')
+      const key = sql`${step}`.inlineParams()
+      const element = sql.raw(`${Number(step)}`)
+      return sql`coalesce(${target} ${operator} ${element}, ${target} ${operator} ${key})`
+    }
+    const args = sql.join(step, sql`,`)
+    return text
+      ? sql`jsonb_extract_path_text(${target}, ${args})`.inlineParams()
+      : sql`jsonb_extract_path(${target}, ${args})`.inlineParams()
+  }, sql`${source}`)
+}
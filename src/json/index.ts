@@ -1,10 +1,65 @@
 export { jsonAccess as access } from './operations/access.ts'
 export {
+  jsonAgg as agg,
+  jsonObjectAgg as objectAgg,
+} from './operations/aggregate.ts'
+export {
+  jsonArrayContains as arrayContains,
   jsonArrayDelete as arrayDelete,
+  jsonArrayDistinct as arrayDistinct,
+  jsonArrayIndexOf as arrayIndexOf,
+  jsonArrayInsert as arrayInsert,
+  jsonArrayLength as arrayLength,
+  jsonArrayMap as arrayMap,
+  jsonArrayPrepend as arrayPrepend,
   jsonArrayPush as arrayPush,
+  jsonArrayRemoveWhere as arrayRemoveWhere,
   jsonArraySet as arraySet,
+  jsonArraySlice as arraySlice,
+  jsonArraySortBy as arraySortBy,
+  jsonArrayUpsertBy as arrayUpsertBy,
 } from './operations/array.ts'
-export { jsonBuild as build } from './operations/build.ts'
+export {
+  jsonBuild as build,
+  jsonFromRow as fromRow,
+} from './operations/build.ts'
 export { jsonCoalesce as coalesce } from './operations/coalesce.ts'
-export { jsonMerge as merge } from './operations/merge.ts'
+export { jsonGenerated as generated } from './operations/generated.ts'
+export {
+  jsonBtreeIndex as btreeIndex,
+  jsonGinIndex as ginIndex,
+} from './operations/indexes.ts'
+export {
+  jsonDeepMerge as deepMerge,
+  jsonMerge as merge,
+  jsonMergePatch as mergePatch,
+} from './operations/merge.ts'
+export { jsonPatch as patch } from './operations/patch.ts'
+export {
+  jsonPathExists as pathExists,
+  jsonPathMatch as pathMatch,
+  jsonPathQuery as pathQuery,
+  jsonPathQueryFirst as pathQueryFirst,
+} from './operations/path.ts'
+export {
+  jsonContainedBy as containedBy,
+  jsonContains as contains,
+  jsonHasAllKeys as hasAllKeys,
+  jsonHasAnyKeys as hasAnyKeys,
+  jsonHasKey as hasKey,
+} from './operations/predicate.ts'
+export {
+  jsonArrayElements as arrayElements,
+  jsonEach as each,
+  jsonToRecord as toRecord,
+  jsonToRecordset as toRecordset,
+} from './operations/rows.ts'
+export {
+  jsonSchemaConstraints as schemaConstraints,
+  typedJsonb as typed,
+} from './operations/schema.ts'
 export { jsonSet as set, jsonSetPipe as setPipe } from './operations/set.ts'
+export {
+  assertJSONTableSupport as assertTableSupport,
+  jsonTable as table,
+} from './operations/table.ts'
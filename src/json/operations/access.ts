@@ -1,13 +1,155 @@
-import { sql } from 'drizzle-orm'
+import { type SQL, sql } from 'drizzle-orm'
 import type { AnyPgColumn } from 'drizzle-orm/pg-core'
-import type { SQL } from 'drizzle-orm/sql'
-import type {
-  SQLJSONDenullify,
-  SQLJSONExtractType,
-  SQLJSONIsNullish,
-  SQLJSONNullify,
-  SQLJSONValue,
+import {
+  buildExtractPath,
+  isIndexSegment,
+  type SQLJSONDeepPartial,
+  type SQLJSONDenullify,
+  type SQLJSONExtractType,
+  type SQLJSONIsNullish,
+  type SQLJSONMixedValue,
+  type SQLJSONNullify,
+  type SQLJSONValue,
 } from '../common.ts'
+import {
+  jsonContainedBy,
+  jsonContains,
+  jsonHasAllKeys,
+  jsonHasAnyKeys,
+  jsonHasKey,
+  type SQLJSONKeyOf,
+} from './predicate.ts'
+
+/**
+ * Element accessors for tuple types, including negative indices counted
+ * from the end (`-1` is the last element).
+ */
+type SQLJSONAccessTupleIndexes<
+  Tuple extends readonly any[],
+  IsNullish extends boolean,
+  Counter extends any[] = [],
+> = Tuple extends readonly [...infer Rest, infer Last]
+  ? {
+      [K in `-${[...Counter, 0]['length']}`]: SQLJSONAccess<
+        SQL<Last | (IsNullish extends true ? null : never)>
+      >
+    } & SQLJSONAccessTupleIndexes<Rest, IsNullish, [...Counter, 0]>
+  : {}
+
+/**
+ * Element accessors for array types. Fixed-length tuples keep their
+ * per-position element types, while any other array resolves every
+ * (possibly negative) index to the element type or null, since the
+ * element may not exist.
+ */
+type SQLJSONAccessIndexes<
+  ArrayType extends readonly any[],
+  IsNullish extends boolean,
+> = number extends ArrayType['length']
+  ? {
+      [K in number]: SQLJSONAccess<SQL<ArrayType[number] | null>>
+    }
+  : {
+      [K in keyof ArrayType & `${number}`]-?: SQLJSONAccess<
+        SQL<ArrayType[K] | (IsNullish extends true ? null : never)>
+      >
+    } & SQLJSONAccessTupleIndexes<ArrayType, IsNullish>
+
+type SQLJSONIsCastable<Type, Target> = 0 extends 1 & Type
+  ? true
+  : [Type] extends [never]
+    ? false
+    : [Type] extends [Target]
+      ? true
+      : false
+
+/**
+ * Scalar cast accessors, only available when the JSON leaf type
+ * can be cast to the target SQL type.
+ */
+export type SQLJSONAccessCasts<
+  Type,
+  IsNullish extends boolean,
+> = (SQLJSONIsCastable<Type, number> extends true
+  ? {
+      $number: SQL<SQLJSONNullify<IsNullish, number>>
+      $integer: SQL<SQLJSONNullify<IsNullish, number>>
+    }
+  : {}) &
+  (SQLJSONIsCastable<Type, boolean> extends true
+    ? { $boolean: SQL<SQLJSONNullify<IsNullish, boolean>> }
+    : {}) &
+  (SQLJSONIsCastable<Type, string | number | boolean> extends true
+    ? {
+        $text: SQL<
+          SQLJSONNullify<IsNullish, Type extends string ? Type : string>
+        >
+      }
+    : {}) &
+  (SQLJSONIsCastable<Type, string> extends true
+    ? { $timestamp: SQL<SQLJSONNullify<IsNullish, Date>> }
+    : {})
+
+const casts = {
+  $number: { type: 'numeric', map: Number },
+  $integer: { type: 'integer', map: Number },
+  $boolean: { type: 'boolean' },
+  $text: { type: 'text' },
+  $timestamp: {
+    type: 'timestamptz',
+    map: (value: string | Date) => new Date(value),
+  },
+} satisfies Record<string, { type: string; map?: (value: any) => unknown }>
+
+/**
+ * SQL type of an accessor leaf, with the mapping of its driver value.
+ */
+export type SQLJSONAccessLeafType = {
+  type: string
+  map?: (value: any) => unknown
+}
+
+const leafTypes = new WeakMap<SQL, SQLJSONAccessLeafType>()
+
+function buildLeaf(value: SQL, leafType: SQLJSONAccessLeafType) {
+  leafTypes.set(value, leafType)
+  return value
+}
+
+function buildCast(value: SQL, cast: (typeof casts)[keyof typeof casts]) {
+  const result = sql`(${value})::${sql.raw(cast.type)}`
+  return buildLeaf('map' in cast ? result.mapWith(cast.map) : result, cast)
+}
+
+/**
+ * Get the SQL type of a leaf built by `jsonAccess`: `text` for `$value`,
+ * `jsonb` for `$path` and the cast type for `$number`, `$integer`, etc.
+ *
+ * @param value The accessor leaf
+ * @returns The leaf type, undefined for other expressions
+ */
+export function getJSONAccessLeafType(
+  value: SQL,
+): SQLJSONAccessLeafType | undefined {
+  return leafTypes.get(value)
+}
+
+/**
+ * Containment and key existence predicates available on every node.
+ * Key checks are only available on objects and arrays of strings.
+ */
+export type SQLJSONAccessPredicates<Type> = {
+  $contains: (
+    value: SQLJSONMixedValue<SQLJSONDeepPartial<Type>>,
+  ) => SQL<boolean>
+  $containedBy: (value: SQLJSONMixedValue<Type>) => SQL<boolean>
+} & ([SQLJSONKeyOf<Type>] extends [never]
+  ? {}
+  : {
+      $hasKey: (key: SQLJSONKeyOf<Type>) => SQL<boolean>
+      $hasAnyKeys: (keys: Array<SQLJSONKeyOf<Type>>) => SQL<boolean>
+      $hasAllKeys: (keys: Array<SQLJSONKeyOf<Type>>) => SQL<boolean>
+    })
 
 export type SQLJSONAccess<
   Source extends SQLJSONValue,
@@ -25,42 +167,60 @@ export type SQLJSONAccess<
     : false = ObjectType extends object ? true : false,
 > = (IsObject extends false
   ? {}
-  : {
-      [K in keyof ObjectType]-?: SQLJSONAccess<
-        SQL<
-          | ObjectType[K]
-          | (IsNullish extends true
-              ? null
-              : ObjectType extends any[]
-                ? null
-                : never)
+  : ObjectType extends readonly any[]
+    ? SQLJSONAccessIndexes<ObjectType, IsNullish>
+    : {
+        [K in keyof ObjectType]-?: SQLJSONAccess<
+          SQL<ObjectType[K] | (IsNullish extends true ? null : never)>
         >
-      >
-    }) & {
-  $value: SQL<SQLJSONNullify<IsNullish, Type>>
-  $path: SQL<SQLJSONNullify<IsNullish, Type>>
-}
+      }) &
+  SQLJSONAccessCasts<ObjectType, IsNullish> &
+  SQLJSONAccessPredicates<ObjectType> & {
+    $value: SQL<SQLJSONNullify<IsNullish, Type>>
+    $path: SQL<SQLJSONNullify<IsNullish, Type>>
+  }
 
+/**
+ * Create a type-safe accessor for navigating JSONB structures.
+ * Numeric properties (`accessor.tags[0]`, `accessor.tags[-1]`) address
+ * array elements with an integer operand, negative indices count from the end
+ * of the array. On objects they still match integer-like keys.
+ * Scalar leaves additionally expose typed casts of their text value:
+ * `$number` (numeric), `$integer`, `$boolean`, `$text` and `$timestamp` (timestamptz).
+ * Every node also exposes the containment (`$contains`, `$containedBy`)
+ * and key existence (`$hasKey`, `$hasAnyKeys`, `$hasAllKeys`) predicates.
+ *
+ * @param source The JSONB column or SQL expression
+ * @returns Proxy object exposing `$path` (jsonb) and `$value` (text) at every level
+ *
+ * @example
+ * // Access the name of the last item
+ * jsonAccess(table.arraycol)[-1].name.$value
+ * // Results in: jsonb_extract_path_text(coalesce("test"."arraycol" -> -1, "test"."arraycol" -> '-1'), 'name')
+ *
+ * @example
+ * // Compare a numeric leaf as a number
+ * gt(jsonAccess(users.profile).age.$number, 18)
+ * // Results in: (jsonb_extract_path_text("users"."profile", 'age'))::numeric > $1
+ */
 export function jsonAccess<Source extends SQLJSONValue>(
   source: Source,
 ): SQLJSONAccess<Source> {
-  function buildPathArgs(path: string[]) {
-    return sql.join(path, sql`,`)
-  }
-
-  function buildPath(path: string[]) {
-    if (path.length === 0) return sql`${source}`
-    return sql`jsonb_extract_path(${source}, ${buildPathArgs(path)})`.inlineParams()
-  }
-
-  function buildValue(path: string[], property?: string) {
-    if (!property)
-      return sql`jsonb_extract_path_text(${source}, ${buildPathArgs(path)})`.inlineParams()
-    return sql`jsonb_extract_path_text(${buildPath(path)}, ${buildPathArgs(path)}, ${property})`.inlineParams()
+  // Containment on a path made only of object keys is rewritten into
+  // containment on the source itself, so it can use an index on the column.
+  // Integer-like segments may address array elements, which can't be wrapped
+  function buildContains(path: string[], value: any) {
+    if (path.some(isIndexSegment))
+      return jsonContains(buildExtractPath(source, path), value)
+    const wrapped = path.reduceRight<any>(
+      (acc, segment) => ({ [segment]: acc }),
+      value,
+    )
+    return jsonContains(source, wrapped)
   }
 
   function createValue(path: string[], property?: string) {
-    const pathArr = property ? [...path, property] : path
+    const pathArr = property !== undefined ? [...path, property] : path
     return createProxy(pathArr)
   }
 
@@ -70,10 +230,39 @@ export function jsonAccess<Source extends SQLJSONValue>(
         if (typeof property === 'symbol')
           throw new TypeError('Symbols are not supported in JSON paths')
         if (property === '$value') {
-          return buildValue(path)
+          return buildLeaf(buildExtractPath(source, path, true), {
+            type: 'text',
+          })
         }
         if (property === '$path') {
-          return buildPath(path)
+          return buildLeaf(buildExtractPath(source, path), {
+            type: 'jsonb',
+            map: (value) =>
+              typeof value === 'string' ? JSON.parse(value) : value,
+          })
+        }
+        if (property === '$contains') {
+          return (value: any) => buildContains(path, value)
+        }
+        if (property === '$containedBy') {
+          return (value: any) =>
+            jsonContainedBy(buildExtractPath(source, path), value)
+        }
+        if (property === '$hasKey') {
+          return (key: any) =>
+            jsonHasKey(buildExtractPath(source, path) as SQL<any>, key)
+        }
+        if (property === '$hasAnyKeys') {
+          return (keys: any[]) =>
+            jsonHasAnyKeys(buildExtractPath(source, path) as SQL<any>, keys)
+        }
+        if (property === '$hasAllKeys') {
+          return (keys: any[]) =>
+            jsonHasAllKeys(buildExtractPath(source, path) as SQL<any>, keys)
+        }
+        if (Object.hasOwn(casts, property)) {
+          const cast = casts[property as keyof typeof casts]
+          return buildCast(buildExtractPath(source, path, true), cast)
         }
         return createValue(path, property)
       },
@@ -0,0 +1,94 @@
+import { type SQL, type SQLWrapper, sql } from 'drizzle-orm'
+import {
+  jsonBuild,
+  type SQLJSONBuildMixedType,
+  type SQLJSONBuildUnwrapType,
+} from './build.ts'
+
+export type SQLJSONAggOptions = {
+  /** Order of the aggregated elements: columns, `asc()`/`desc()` or SQL expressions */
+  orderBy?: SQLWrapper | SQLWrapper[]
+  /** Only aggregate the rows matching the condition */
+  filter?: SQL
+  /** Skip duplicate elements (ordering expressions must then appear in the element) */
+  distinct?: boolean
+}
+
+export type SQLJSONObjectAggOptions = Pick<SQLJSONAggOptions, 'filter'>
+
+function buildFilter(filter: SQL | undefined) {
+  return filter ? sql` filter (where ${filter})` : undefined
+}
+
+/**
+ * Aggregate rows into a JSONB array (`jsonb_agg`).
+ * Elements are built like `jsonBuild` does, so objects may mix JS values,
+ * columns and SQL expressions. Returns `[]` instead of SQL NULL when there are no rows.
+ *
+ * @param value The element built for each row
+ * @param options.orderBy Order of the elements
+ * @param options.filter Only aggregate the rows matching the condition
+ * @param options.distinct Skip duplicate elements
+ * @returns SQL expression representing the JSONB array
+ *
+ * @example
+ * // Posts with their comments
+ * db.select({
+ *   id: posts.id,
+ *   comments: jsonAgg(
+ *     { id: comments.id, body: comments.body },
+ *     { orderBy: desc(comments.createdAt), filter: isNotNull(comments.id) },
+ *   ),
+ * })
+ *   .from(posts)
+ *   .leftJoin(comments, eq(comments.postId, posts.id))
+ *   .groupBy(posts.id)
+ * // Results in: coalesce(jsonb_agg(jsonb_build_object('id', "comments"."id",'body', "comments"."body")
+ * //   order by "comments"."createdAt" desc) filter (where "comments"."id" is not null), '[]'::jsonb)
+ */
+export function jsonAgg<Value extends SQLJSONBuildMixedType>(
+  value: Value,
+  options?: SQLJSONAggOptions,
+): SQL<Array<SQLJSONBuildUnwrapType<Value>>> {
+  const orderBy = [options?.orderBy ?? []].flat()
+  const distinct = options?.distinct ? sql`distinct ` : undefined
+  const order =
+    orderBy.length > 0
+      ? sql` order by ${sql.join(orderBy, sql`, `)}`
+      : undefined
+  return sql`coalesce(jsonb_agg(${distinct}${jsonBuild(value)}${order})${buildFilter(options?.filter)}, '[]'::jsonb)`
+}
+
+/**
+ * Aggregate rows into a JSONB object (`jsonb_object_agg`).
+ * Values are built like `jsonBuild` does. When a key repeats, the last value wins.
+ * Rows with a NULL key (e.g. from an outer join without matches) are skipped,
+ * and `{}` is returned instead of SQL NULL when there are no rows.
+ *
+ * @param key The key of each row
+ * @param value The value built for each row
+ * @param options.filter Only aggregate the rows matching the condition
+ * @returns SQL expression representing the JSONB object
+ *
+ * @example
+ * // Settings of every user as an object
+ * db.select({
+ *   id: users.id,
+ *   settings: jsonObjectAgg(settings.name, settings.value),
+ * })
+ *   .from(users)
+ *   .leftJoin(settings, eq(settings.userId, users.id))
+ *   .groupBy(users.id)
+ * // Results in: coalesce(jsonb_object_agg("settings"."name", "settings"."value")
+ * //   filter (where "settings"."name" is not null), '{}'::jsonb)
+ */
+export function jsonObjectAgg<Value extends SQLJSONBuildMixedType>(
+  key: SQLWrapper,
+  value: Value,
+  options?: SQLJSONObjectAggOptions,
+): SQL<Record<string, SQLJSONBuildUnwrapType<Value>>> {
+  const filter = options?.filter
+    ? sql`${key} is not null and (${options.filter})`
+    : sql`${key} is not null`
+  return sql`coalesce(jsonb_object_agg(${key}, ${jsonBuild(value)})${buildFilter(filter)}, '{}'::jsonb)`
+}
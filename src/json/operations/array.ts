@@ -1,11 +1,17 @@
 import { isSQLWrapper, type SQL, sql } from 'drizzle-orm'
-import type {
-  SQLJSONDenullify,
-  SQLJSONExtractType,
-  SQLJSONNullish,
-  SQLJSONValue,
+import {
+  buildJSONPathIndex,
+  type SQLJSONDeepPartial,
+  type SQLJSONDenullify,
+  type SQLJSONExtractType,
+  type SQLJSONMixedValue,
+  type SQLJSONNullish,
+  type SQLJSONValue,
 } from '../common.ts'
+import { jsonAccess, type SQLJSONAccess } from './access.ts'
+import { jsonBuild } from './build.ts'
 import { jsonCoalesce } from './coalesce.ts'
+import { jsonSet, type SQLJSONSet } from './set.ts'
 
 type AcceptableValue = any[] | SQLJSONNullish
 
@@ -18,6 +24,35 @@ function valueOrEmptyArray<T extends SQLJSONValue<AcceptableValue>>(
   )
 }
 
+/**
+ * Value matched against array elements: objects are matched by containment
+ * of a (deep) partial object, any other element by equality.
+ */
+export type SQLJSONArrayMatch<Element> = Element extends readonly any[]
+  ? SQLJSONMixedValue<Element>
+  : Element extends object
+    ? SQLJSONMixedValue<SQLJSONDeepPartial<Element>>
+    : Element | SQL<Element>
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isSQLWrapper(value)
+  )
+}
+
+/**
+ * Build the condition matching an array element: plain objects use the `@>` operator,
+ * JS values use equality, SQL values are checked by their JSON type at runtime.
+ */
+function buildElementMatch(element: SQL, match: unknown): SQL {
+  if (isPlainObject(match)) return sql`${element} @> ${jsonBuild(match as any)}`
+  if (!isSQLWrapper(match)) return sql`${element} = ${jsonBuild(match as any)}`
+  return sql`case jsonb_typeof(${match}) when 'object' then ${element} @> ${match} else ${element} = ${match} end`
+}
+
 /**
  * Push a value to the end of a JSONB array.
  * Note, it will create a empty array if the target is null.
@@ -55,6 +90,81 @@ export function jsonArrayPush<
   return sql`${valueOrEmptyArray(target)} || ${_value}`
 }
 
+/**
+ * Prepend values to the beginning of a JSONB array, keeping their order.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array
+ * @param values The values to prepend
+ * @returns SQL expression representing the updated JSONB array
+ *
+ * @see https://www.postgresql.org/docs/current/functions-json.html#FUNCTIONS-JSON-PROCESSING-TABLE
+ *
+ * @example
+ * // Prepend to array with plain JS values
+ * jsonArrayPrepend(sql`'[3, 4]'::jsonb`, 1, 2)
+ * // Results in: [1, 2, 3, 4]
+ */
+export function jsonArrayPrepend<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  ...values: Array<ElementType | SQLJSONValue<ElementType>>
+): SQL<SQLJSONDenullify<SourceType>> {
+  const _values = values.map((value) =>
+    isSQLWrapper(value) ? value : sql`${JSON.stringify(value)}::jsonb`,
+  )
+  const _value = sql`jsonb_build_array(${sql.join(_values, sql`, `)})`
+  return sql`${_value} || ${valueOrEmptyArray(target)}`
+}
+
+/**
+ * Insert a value into a JSONB array before (or after) a specific index,
+ * shifting the following elements. Negative indices count from the end,
+ * indices out of bounds insert at the beginning or the end of the array.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array
+ * @param index The index to insert the value at
+ * @param value The value to insert (can be SQL expression or plain JS value)
+ * @param options.after Insert after the element at `index` instead of before it
+ * @returns SQL expression representing the updated JSONB array
+ *
+ * @see https://www.postgresql.org/docs/current/functions-json.html#FUNCTIONS-JSON-PROCESSING-TABLE
+ *
+ * @example
+ * // Insert before index 1
+ * jsonArrayInsert(sql`'[1, 3]'::jsonb`, 1, 2)
+ * // Results in: [1, 2, 3]
+ *
+ * @example
+ * // Insert after the last element
+ * jsonArrayInsert(sql`'[1, 2]'::jsonb`, -1, 3, { after: true })
+ * // Results in: [1, 2, 3]
+ */
+export function jsonArrayInsert<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  index: number,
+  value: ElementType | SQLJSONValue<ElementType>,
+  options?: { after?: boolean },
+): SQL<SQLJSONDenullify<SourceType>> {
+  const _value = isSQLWrapper(value)
+    ? value
+    : sql`${JSON.stringify(value)}::jsonb`
+  const after = sql`${options?.after ?? false}`.inlineParams()
+  return sql`jsonb_insert(${valueOrEmptyArray(target)}, '{${sql`${index}`.inlineParams()}}', ${_value}, ${after})`
+}
+
 /**
  * Set a value at a specific index in a JSONB array.
  * Note, it will create a empty array if the target is null.
@@ -108,3 +218,283 @@ export function jsonArrayDelete<
 >(target: Target, index: number): SQL<SQLJSONDenullify<TargetType>> {
   return sql`${valueOrEmptyArray(target)} - ${sql`${index}`.inlineParams()}`
 }
+
+/**
+ * Remove all elements matching a value from a JSONB array, preserving the order of the rest.
+ * Object elements match when they contain the given partial object (`@>`),
+ * any other element matches when it is equal to the given value.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array, even when all elements are removed
+ *
+ * @param target The source JSONB array
+ * @param match A partial object, a scalar or an SQL expression to match the elements against
+ * @returns SQL expression representing the updated JSONB array
+ *
+ * @example
+ * // Remove an item by id
+ * jsonArrayRemoveWhere(sql`'[{"id": 1}, {"id": 42, "name": "x"}]'::jsonb`, { id: 42 })
+ * // Results in: [{"id": 1}]
+ *
+ * @example
+ * // Remove all occurrences of a tag
+ * jsonArrayRemoveWhere(sql`'["a", "b", "a"]'::jsonb`, 'a')
+ * // Results in: ["b"]
+ */
+export function jsonArrayRemoveWhere<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  match: SQLJSONArrayMatch<ElementType>,
+): SQL<SQLJSONDenullify<SourceType>> {
+  const condition = buildElementMatch(sql`element.value`, match)
+  return sql`coalesce((select jsonb_agg(element.value order by element.ordinality) from jsonb_array_elements(${valueOrEmptyArray(target)}) with ordinality as element(value, ordinality) where (${condition}) is not true), '[]'::jsonb)`
+}
+
+/**
+ * Replace the elements of a JSONB array of objects whose `key` property equals
+ * the one of the given item, or append the item if no element matches.
+ * With `merge`, the item is merged into the matching elements (`||`) instead of replacing them,
+ * keeping the properties it does not set.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array of objects
+ * @param key The property identifying the elements
+ * @param item The element to upsert (can be SQL expression, plain JS or mixed value)
+ * @param options.merge Merge the item into the matching elements instead of replacing them
+ * @returns SQL expression representing the updated JSONB array
+ *
+ * @example
+ * // Update the item with id 7, or add it
+ * jsonArrayUpsertBy(orders.items, 'id', { id: 7, name: 'Updated' })
+ * // Results in: items with the element of id 7 replaced, or the new element appended
+ */
+export function jsonArrayUpsertBy<
+  Target extends SQLJSONValue<AcceptableValue>,
+  Key extends keyof ElementType & string,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  key: Key,
+  item: SQLJSONMixedValue<ElementType>,
+  options?: { merge?: boolean },
+): SQL<SQLJSONDenullify<SourceType>> {
+  const keySQL = sql`${key}`.inlineParams()
+  const matched = sql`element.value -> ${keySQL} = input.item -> ${keySQL}`
+  const replacement = options?.merge
+    ? sql`element.value || input.item`
+    : sql`input.item`
+  const upserted = sql`(select case when bool_or(${matched}) then jsonb_agg(case when ${matched} then ${replacement} else element.value end order by element.ordinality) else coalesce(jsonb_agg(element.value order by element.ordinality), '[]'::jsonb) || jsonb_build_array(input.item) end from jsonb_array_elements(input.target) with ordinality as element(value, ordinality))`
+  return sql`(select ${upserted} from (select ${valueOrEmptyArray(target)}, ${jsonBuild(item as any)}) as input(target, item))`
+}
+
+/**
+ * Transform the elements of a JSONB array, preserving their order.
+ * The mapper receives a `jsonSet` proxy and a `jsonAccess` proxy for the element
+ * and returns the new element. When `where` is given, only the matching elements are
+ * transformed: it accepts the same values as `jsonArrayRemoveWhere` or a predicate
+ * receiving a `jsonAccess` proxy for the element.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array
+ * @param mapper Function returning the new element (can be SQL expression, plain JS or mixed value)
+ * @param where Optional match value or predicate selecting the elements to transform
+ * @returns SQL expression representing the updated JSONB array
+ *
+ * @example
+ * // Cancel all pending items
+ * jsonArrayMap(
+ *   orders.items,
+ *   (item) => item.status.$set('cancelled'),
+ *   { status: 'pending' },
+ * )
+ *
+ * @example
+ * // Double the quantity of the items with a quantity below 10
+ * jsonArrayMap(
+ *   orders.items,
+ *   (item, value) => item.qty.$set(sql`to_jsonb(${value.qty.$number} * 2)`),
+ *   (value) => lt(value.qty.$number, 10),
+ * )
+ */
+export function jsonArrayMap<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  mapper: (
+    element: SQLJSONSet<SQL<ElementType>, SQL<ElementType>, true>,
+    value: SQLJSONAccess<SQL<ElementType>>,
+  ) => SQLJSONMixedValue<ElementType>,
+  where?:
+    | SQLJSONArrayMatch<ElementType>
+    | ((value: SQLJSONAccess<SQL<ElementType>>) => SQL<boolean>),
+): SQL<SQLJSONDenullify<SourceType>> {
+  const element = sql<ElementType>`element.value`
+  let mapped: SQL = jsonBuild(
+    mapper(jsonSet(element as SQL<any>) as any, jsonAccess(element)) as any,
+  )
+  if (where !== undefined) {
+    const condition =
+      typeof where === 'function'
+        ? (where as (value: SQLJSONAccess<SQL<ElementType>>) => SQL<boolean>)(
+            jsonAccess(element),
+          )
+        : buildElementMatch(element, where)
+    mapped = sql`case when ${condition} then ${mapped} else ${element} end`
+  }
+  return sql`coalesce((select jsonb_agg(${mapped} order by element.ordinality) from jsonb_array_elements(${valueOrEmptyArray(target)}) with ordinality as element(value, ordinality)), '[]'::jsonb)`
+}
+
+/**
+ * Get the number of elements of a JSONB array.
+ * Note, a null target is treated as an empty array, so it always returns a number
+ *
+ * @param target The source JSONB array
+ * @returns SQL integer expression
+ *
+ * @example
+ * jsonArrayLength(sql`'[1, 2, 3]'::jsonb`)
+ * // Results in: 3
+ */
+export function jsonArrayLength<Target extends SQLJSONValue<AcceptableValue>>(
+  target: Target,
+): SQL<number> {
+  return sql<number>`jsonb_array_length(${valueOrEmptyArray(target)})`
+}
+
+/**
+ * Check whether a JSONB array contains an element, using the `@>` operator.
+ * Object elements match when they contain the given partial object,
+ * any other element when it is equal to the given value.
+ * Note, a null target is treated as an empty array, so it always returns a boolean
+ *
+ * @param target The source JSONB array
+ * @param value A partial object, a scalar or an SQL expression
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonArrayContains(sql`'[{"id": 1, "name": "John"}]'::jsonb`, { id: 1 })
+ * // Results in: true
+ */
+export function jsonArrayContains<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(target: Target, value: SQLJSONArrayMatch<ElementType>): SQL<boolean> {
+  return sql`${valueOrEmptyArray(target)} @> jsonb_build_array(${jsonBuild(value as any)})`
+}
+
+/**
+ * Get the zero-based index of the first element matching a value, or -1 if there is none.
+ * Elements are matched like in `jsonArrayRemoveWhere`.
+ * Note, a null target is treated as an empty array, so it always returns a number
+ *
+ * @param target The source JSONB array
+ * @param match A partial object, a scalar or an SQL expression
+ * @returns SQL integer expression
+ *
+ * @example
+ * jsonArrayIndexOf(sql`'["a", "b", "c"]'::jsonb`, 'b')
+ * // Results in: 1
+ */
+export function jsonArrayIndexOf<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(target: Target, match: SQLJSONArrayMatch<ElementType>): SQL<number> {
+  const condition = buildElementMatch(sql`element.value`, match)
+  return sql<number>`coalesce((select (element.ordinality - 1)::integer from jsonb_array_elements(${valueOrEmptyArray(target)}) with ordinality as element(value, ordinality) where ${condition} order by element.ordinality limit 1), -1)`
+}
+
+/**
+ * Get a section of a JSONB array, with the same semantics as `Array.prototype.slice`:
+ * `end` is exclusive and negative indices count from the end of the array.
+ * Note, a null target is treated as an empty array, so it always return a valid array
+ *
+ * @param target The source JSONB array
+ * @param start The index of the first element to include
+ * @param end The index of the first element to exclude (default: the end of the array)
+ * @returns SQL expression representing the sliced JSONB array
+ *
+ * @example
+ * // Last two elements
+ * jsonArraySlice(sql`'[1, 2, 3]'::jsonb`, -2)
+ * // Results in: jsonb_path_query_array(..., '$[last - 1 to last]'::jsonpath) = [2, 3]
+ */
+export function jsonArraySlice<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+>(
+  target: Target,
+  start: number,
+  end?: number,
+): SQL<SQLJSONDenullify<SourceType>> {
+  const from = buildJSONPathIndex(start)
+  // `end` is exclusive while jsonpath ranges are inclusive,
+  // a range ending at -1 is empty
+  const to =
+    end === undefined ? 'last' : end === 0 ? '-1' : buildJSONPathIndex(end - 1)
+  const path = sql`${`$[${from} to ${to}]`}`.inlineParams()
+  return sql`jsonb_path_query_array(${valueOrEmptyArray(target)}, ${path}::jsonpath)`
+}
+
+/**
+ * Remove duplicate elements from a JSONB array, keeping the first occurrence of each element.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array
+ * @returns SQL expression representing the deduplicated JSONB array
+ *
+ * @example
+ * jsonArrayDistinct(sql`'["a", "b", "a"]'::jsonb`)
+ * // Results in: ["a", "b"]
+ */
+export function jsonArrayDistinct<
+  Target extends SQLJSONValue<AcceptableValue>,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+>(target: Target): SQL<SQLJSONDenullify<SourceType>> {
+  return sql`coalesce((select jsonb_agg(element.value order by element.ordinality) from (select value, min(ordinality) as ordinality from jsonb_array_elements(${valueOrEmptyArray(target)}) with ordinality group by value) as element), '[]'::jsonb)`
+}
+
+/**
+ * Sort a JSONB array of objects by a property, using the jsonb ordering
+ * (numbers numerically, strings by collation). Elements missing the property come last,
+ * elements with equal values keep their relative order.
+ * Note, it will create a empty array if the target is null.
+ * So it always return a valid array
+ *
+ * @param target The source JSONB array of objects
+ * @param key The property to sort by
+ * @param options.desc Sort in descending order
+ * @returns SQL expression representing the sorted JSONB array
+ *
+ * @example
+ * jsonArraySortBy(sql`'[{"id": 2}, {"id": 1}]'::jsonb`, 'id')
+ * // Results in: [{"id": 1}, {"id": 2}]
+ */
+export function jsonArraySortBy<
+  Target extends SQLJSONValue<AcceptableValue>,
+  Key extends keyof ElementType & string,
+  SourceType extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+  ElementType extends
+    SQLJSONDenullify<SourceType>[number] = SQLJSONDenullify<SourceType>[number],
+>(
+  target: Target,
+  key: Key,
+  options?: { desc?: boolean },
+): SQL<SQLJSONDenullify<SourceType>> {
+  const direction = sql.raw(options?.desc ? 'desc' : 'asc')
+  return sql`coalesce((select jsonb_agg(element.value order by element.value -> ${sql`${key}`.inlineParams()} ${direction} nulls last, element.ordinality) from jsonb_array_elements(${valueOrEmptyArray(target)}) with ordinality as element(value, ordinality)), '[]'::jsonb)`
+}
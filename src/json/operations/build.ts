@@ -1,4 +1,27 @@
-import { isSQLWrapper, type SQL, type SQLWrapper, sql } from 'drizzle-orm'
+import {
+  type AnyColumn,
+  Column,
+  getTableColumns,
+  is,
+  isSQLWrapper,
+  SQL,
+  type SQLWrapper,
+  type Subquery,
+  sql,
+  Table,
+} from 'drizzle-orm'
+import type { SelectResultFields } from 'drizzle-orm/query-builders/select.types'
+import type { SQLJSONExtractType, SQLJSONValue } from '../common.ts'
+
+declare const embeddedType: unique symbol
+
+/**
+ * An SQL expression decoded to `Decoded` when selected, whose JSON value is `Embedded`
+ * when it is built into another JSON expression, where no decoding happens
+ */
+export type SQLJSONDecoded<Decoded, Embedded> = SQL<Decoded> & {
+  readonly [embeddedType]: Embedded
+}
 
 export type SQLJSONBuildMixedPrimitiveType =
   | string
@@ -19,17 +42,25 @@ export type SQLJSONBuildMixedType =
   | SQLJSONBuildMixedPrimitiveType
   | SQLJSONBuildMixedArrayType
   | SQLJSONBuildMixedObjectType
+  | SQLJSONDecoded<unknown, unknown>
+  | AnyColumn
 
 export type SQLJSONBuildUnwrapType<T extends SQLJSONBuildMixedType> =
-  T extends SQL<infer U>
-    ? U
-    : T extends Array<SQLJSONBuildMixedType>
-      ? Array<SQLJSONBuildUnwrapType<T[number]>>
-      : T extends { [key: string]: SQLJSONBuildMixedType }
-        ? {
-            [K in keyof T]: SQLJSONBuildUnwrapType<T[K]>
-          }
-        : T
+  T extends SQLJSONDecoded<any, infer Embedded>
+    ? Embedded
+    : T extends AnyColumn
+      ? T['_']['notNull'] extends true
+        ? T['_']['data']
+        : T['_']['data'] | null
+      : T extends SQL<infer U>
+        ? U
+        : T extends Array<SQLJSONBuildMixedType>
+          ? Array<SQLJSONBuildUnwrapType<T[number]>>
+          : T extends { [key: string]: SQLJSONBuildMixedType }
+            ? {
+                [K in keyof T]: SQLJSONBuildUnwrapType<T[K]>
+              }
+            : T
 
 export function jsonBuild<T extends SQLJSONBuildMixedType>(
   value: T,
@@ -64,3 +95,167 @@ export function jsonBuild<T extends SQLJSONBuildMixedType>(
 
   return processValue(value) as any
 }
+
+export type SQLJSONRowSource = Table | Subquery
+
+/**
+ * Row type of a table (`$inferSelect`) or of a subquery selection
+ */
+export type SQLJSONRowType<Source extends SQLJSONRowSource> =
+  Source extends Table
+    ? Source['$inferSelect']
+    : Source extends Subquery
+      ? SelectResultFields<Source['_']['selectedFields']>
+      : never
+
+/**
+ * JSON type of a column value in `jsonb_build_object`: JSON columns keep their type,
+ * custom columns (e.g. temporal ones) have their driver type, dates are strings
+ * and numerics are numbers
+ */
+export type SQLJSONColumnJSONType<Field extends AnyColumn> =
+  | (Field['_']['dataType'] extends 'json'
+      ? Field['_']['data']
+      : Field['_']['dataType'] extends 'custom'
+        ? Field['_']['driverParam']
+        : Field['_']['dataType'] extends 'date'
+          ? string
+          : Field['_']['dataType'] extends 'bigint'
+            ? number
+            : Field['_']['columnType'] extends 'PgNumeric'
+              ? number
+              : Field['_']['data'])
+  | (Field['_']['notNull'] extends true ? never : null)
+
+type SQLJSONFieldJSONType<Field> = Field extends AnyColumn
+  ? SQLJSONColumnJSONType<Field>
+  : Field extends SQLJSONValue
+    ? SQLJSONExtractType<Field>
+    : never
+
+/**
+ * JSON type of the row object, as it is embedded in other JSON expressions
+ */
+export type SQLJSONRowJSONType<Source extends SQLJSONRowSource> =
+  Source extends Table
+    ? {
+        [K in keyof Source['_']['columns']]: SQLJSONFieldJSONType<
+          Source['_']['columns'][K]
+        >
+      }
+    : Source extends Subquery
+      ? {
+          [K in keyof Source['_']['selectedFields']]: SQLJSONFieldJSONType<
+            Source['_']['selectedFields'][K]
+          >
+        }
+      : never
+
+export type SQLJSONRowOptions<
+  Key extends string,
+  Picked extends Key,
+  Omitted extends Key,
+  Renamed extends { [K in Key]?: string },
+> = {
+  /** Only include these fields */
+  pick?: readonly Picked[]
+  /** Exclude these fields */
+  omit?: readonly Omitted[]
+  /** Use different keys in the JSON object */
+  rename?: Renamed
+}
+
+export type SQLJSONRowResult<Row, Picked, Omitted, Renamed> = {
+  [K in Exclude<Picked, Omitted> & keyof Row as K extends keyof Renamed
+    ? Renamed[K] extends string
+      ? Renamed[K]
+      : K
+    : K]: Row[K]
+}
+
+/**
+ * Build a JSONB object from the columns of a table or the fields of a subquery,
+ * keyed by their property names. Selected directly, the result is decoded with each
+ * column's `mapFromDriverValue`, so values have the same JS types as in a regular select
+ * (e.g. Temporal objects for the temporal columns). Embedded in other JSON expressions
+ * (`jsonAgg`, `jsonBuild`, ...), nothing decodes it: columns keep their driver form,
+ * as written by `mapToDriverValue` and read back by `mapFromDriverValue` (e.g. strings
+ * for the temporal columns), and the result is typed accordingly.
+ * JSON columns and SQL fields are embedded as-is.
+ *
+ * @param source The table (or table alias) or subquery
+ * @param options.pick Only include these fields
+ * @param options.omit Exclude these fields
+ * @param options.rename Use different keys in the JSON object
+ * @returns SQL expression representing the JSONB object of the row
+ *
+ * @example
+ * // Embed the author of each post
+ * db.select({
+ *   id: posts.id,
+ *   author: jsonFromRow(users, { omit: ['password'], rename: { id: 'userId' } }),
+ * })
+ *   .from(posts)
+ *   .innerJoin(users, eq(users.id, posts.authorId))
+ * // Results in: jsonb_build_object('userId', "users"."id",'name', "users"."name")
+ */
+export function jsonFromRow<
+  Source extends SQLJSONRowSource,
+  const Picked extends Extract<keyof SQLJSONRowType<Source>, string> = Extract<
+    keyof SQLJSONRowType<Source>,
+    string
+  >,
+  const Omitted extends Extract<keyof SQLJSONRowType<Source>, string> = never,
+  const Renamed extends {
+    [K in Extract<keyof SQLJSONRowType<Source>, string>]?: string
+  } = {},
+>(
+  source: Source,
+  options?: SQLJSONRowOptions<
+    Extract<keyof SQLJSONRowType<Source>, string>,
+    Picked,
+    Omitted,
+    Renamed
+  >,
+): SQLJSONDecoded<
+  SQLJSONRowResult<SQLJSONRowType<Source>, Picked, Omitted, Renamed>,
+  SQLJSONRowResult<SQLJSONRowJSONType<Source>, Picked, Omitted, Renamed>
+> {
+  const fields: Record<string, unknown> = is(source, Table)
+    ? getTableColumns(source)
+    : Object.fromEntries(
+        Object.keys(source._.selectedFields).map((key) => [
+          key,
+          (source as any)[key],
+        ]),
+      )
+  const rename: Record<string, string | undefined> = options?.rename ?? {}
+  const keys = (options?.pick ?? Object.keys(fields)).filter(
+    (key) => !options?.omit?.includes(key as any),
+  )
+
+  const decoders: Array<[key: string, decode: (value: any) => any]> = []
+  const entries = keys.map((key) => {
+    const field = fields[key]
+    const name = rename[key] ?? key
+    if (field === undefined)
+      throw new TypeError(`Unknown field in JSON row: ${key}`)
+    if (is(field, Column)) {
+      if (field.dataType !== 'json')
+        decoders.push([name, (value) => field.mapFromDriverValue(value)])
+    } else if (!is(field, SQL) && !is(field, SQL.Aliased)) {
+      throw new TypeError(`Unsupported field in JSON row: ${key}`)
+    }
+    return sql`${sql`${name}`.inlineParams()}, ${field}`
+  })
+
+  return sql`jsonb_build_object(${sql.join(entries, sql`,`)})`.mapWith(
+    (value) => {
+      const row = typeof value === 'string' ? JSON.parse(value) : value
+      for (const [key, decode] of decoders)
+        if (row[key] !== null && row[key] !== undefined)
+          row[key] = decode(row[key])
+      return row
+    },
+  ) as any
+}
@@ -0,0 +1,90 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { customType, type PgColumnBuilderBase } from 'drizzle-orm/pg-core'
+import {
+  getJSONAccessLeafType,
+  jsonAccess,
+  type SQLJSONAccess,
+} from './access.ts'
+
+/**
+ * JSON type of a JSONB column builder, from its `$type`,
+ * nullable unless the column is `notNull`.
+ */
+export type SQLJSONBuilderType<Builder extends PgColumnBuilderBase> =
+  | (Builder['_'] extends { $type: infer Type } ? Type : Builder['_']['data'])
+  | (Builder['_']['notNull'] extends true ? never : null)
+
+export type SQLJSONGeneratedPath<Builder extends PgColumnBuilderBase, Type> = (
+  root: SQLJSONAccess<SQL<SQLJSONBuilderType<Builder>>>,
+) => SQL<Type>
+
+/**
+ * Create a stored generated column from a leaf of a JSONB column, computed with the same
+ * expression as the accessor (`$value` is `text`, `$path` is `jsonb`, casts like `$integer`
+ * or `$number` use their SQL type), so it can be queried and indexed like any column.
+ * The JSONB column is given as its builder, as the table columns are not typed yet.
+ * The expression must be immutable, which rules out `$timestamp` (the cast depends on the time zone).
+ *
+ * @param name Name of the generated column, the key in the table by default
+ * @param source The JSONB column builder, declared before the table
+ * @param path Builder of the accessor leaf
+ * @returns Column builder generated always as the leaf, typed from the leaf
+ *
+ * @example
+ * const data = jsonb('data').$type<Order>().notNull()
+ * const orders = pgTable('orders', {
+ *   data,
+ *   email: jsonGenerated(data, (data) => data.customer.email.$value),
+ *   total: jsonGenerated('order_total', data, (data) => data.total.$number),
+ * })
+ * // Results in: "email" text generated always as (jsonb_extract_path_text("data", 'customer', 'email')) stored,
+ * //   "order_total" numeric generated always as ((jsonb_extract_path_text("data", 'total'))::numeric) stored
+ */
+export function jsonGenerated<Builder extends PgColumnBuilderBase, Type>(
+  source: Builder,
+  path: SQLJSONGeneratedPath<Builder, Type>,
+): ReturnType<typeof buildGenerated<Type>>
+export function jsonGenerated<Builder extends PgColumnBuilderBase, Type>(
+  name: string,
+  source: Builder,
+  path: SQLJSONGeneratedPath<Builder, Type>,
+): ReturnType<typeof buildGenerated<Type>>
+export function jsonGenerated(
+  ...args:
+    | [PgColumnBuilderBase, SQLJSONGeneratedPath<any, unknown>]
+    | [string, PgColumnBuilderBase, SQLJSONGeneratedPath<any, unknown>]
+) {
+  const [name, source, path] = args.length === 3 ? args : ['', ...args]
+  return buildGenerated(name, source, path)
+}
+
+function buildGenerated<Type>(
+  name: string,
+  source: PgColumnBuilderBase,
+  path: SQLJSONGeneratedPath<any, Type>,
+) {
+  // Key-named builders only get their name in `pgTable`, so it is read when rendering
+  const { config } = source as unknown as { config: { name: string } }
+  const column = sql`${{
+    getSQL: () => sql`${sql.identifier(config.name)}`,
+    shouldOmitSQLParens: () => true,
+  }}`
+  const leaf = path(jsonAccess(column as SQL<any>))
+  const leafType = getJSONAccessLeafType(leaf)
+  if (!leafType)
+    throw new TypeError(
+      'jsonGenerated requires an accessor leaf, like `$value` or `$integer`',
+    )
+  if (leafType.type === 'timestamptz')
+    throw new TypeError(
+      'jsonGenerated does not support `$timestamp`, its cast is not immutable',
+    )
+
+  return customType<{
+    data: Exclude<Type, null>
+    driverData: unknown
+  }>({
+    dataType: () => leafType.type,
+    fromDriver: (value) => (leafType.map ? leafType.map(value) : value) as any,
+  })(name).generatedAlwaysAs(leaf)
+}
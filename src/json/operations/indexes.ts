@@ -0,0 +1,121 @@
+import { SQL, sql } from 'drizzle-orm'
+import {
+  type ExtraConfigColumn,
+  type IndexBuilder,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core'
+import {
+  getJSONAccessLeafType,
+  jsonAccess,
+  type SQLJSONAccess,
+} from './access.ts'
+
+/**
+ * Accessor of the indexed column. The columns of the table extra config are untyped,
+ * so the JSON type is given as the type argument of the index helper.
+ */
+export type SQLJSONIndexAccess<Type> = SQLJSONAccess<SQL<Type>>
+
+/**
+ * - `jsonb_ops` (default): supports `@>`, `@?`, `@@` and the key existence operators (`?`, `?|`, `?&`)
+ * - `jsonb_path_ops`: smaller and faster, but only supports `@>`, `@?` and `@@`
+ */
+export type SQLJSONGinOpClass = 'jsonb_ops' | 'jsonb_path_ops'
+
+export type SQLJSONGinIndexOptions<Type> = {
+  /** Operator class, `jsonb_ops` by default */
+  opClass?: SQLJSONGinOpClass
+  /** Index a nested value instead of the whole column, given as an accessor node (jsonb) */
+  path?: (root: SQLJSONIndexAccess<Type>) => { $path: SQL }
+}
+
+export type SQLJSONBtreeIndexOptions = {
+  /** Create a unique index */
+  unique?: boolean
+}
+
+function access<Type>(column: ExtraConfigColumn): SQLJSONIndexAccess<Type> {
+  return jsonAccess(column as unknown as SQL<Type>)
+}
+
+/**
+ * Create a GIN index on a JSONB column, or on a nested value given by an accessor path.
+ * A nested value index is only used by predicates on the same node, e.g.
+ * `jsonContains(jsonAccess(posts.data).tags.$path, ['sql'])`, while `$contains` on
+ * a path made only of object keys is rewritten to the column and uses a column index.
+ *
+ * @param name Name of the index
+ * @param column The JSONB column, from the table extra config
+ * @param options.opClass Operator class, `jsonb_ops` by default
+ * @param options.path Accessor path of the nested value to index
+ * @returns Index builder for the table extra config
+ *
+ * @example
+ * const posts = pgTable('posts', {
+ *   data: jsonb('data').$type<Post>().notNull(),
+ * }, (table) => [
+ *   jsonGinIndex('posts_data_idx', table.data, { opClass: 'jsonb_path_ops' }),
+ *   jsonGinIndex<Post>('posts_tags_idx', table.data, { path: (data) => data.tags }),
+ * ])
+ * // Results in: create index "posts_data_idx" on "posts" using gin ("data" jsonb_path_ops)
+ * //   create index "posts_tags_idx" on "posts" using gin ((jsonb_extract_path("posts"."data", 'tags')) jsonb_ops)
+ */
+export function jsonGinIndex<Type>(
+  name: string,
+  column: ExtraConfigColumn,
+  options?: SQLJSONGinIndexOptions<Type>,
+): IndexBuilder {
+  const opClass = options?.opClass ?? 'jsonb_ops'
+  if (!options?.path) return index(name).using('gin', column.op(opClass))
+  const node = options.path(access<Type>(column))
+  // Accessor nodes are proxies, only `instanceof` is safe to call on them
+  if (node instanceof SQL)
+    throw new TypeError(
+      'jsonGinIndex requires an accessor node, like `(root) => root.tags`',
+    )
+  return index(name).using('gin', sql`(${node.$path}) ${sql.raw(opClass)}`)
+}
+
+/**
+ * Create a B-tree expression index on JSON leaves, extracted like `jsonAccess` does
+ * (`$value`, or a cast like `$integer`, `$number` or `$boolean`). Queries use the index
+ * when they compare the same accessor expression. `$timestamp` is rejected, index
+ * expressions must be immutable and its cast depends on the session time zone.
+ *
+ * @param name Name of the index
+ * @param column The JSONB column, from the table extra config
+ * @param leaves Accessor expressions to index, in order
+ * @param options.unique Create a unique index
+ * @returns Index builder for the table extra config
+ *
+ * @example
+ * const users = pgTable('users', {
+ *   profile: jsonb('profile').$type<Profile>().notNull(),
+ * }, (table) => [
+ *   jsonBtreeIndex<Profile>('users_email_idx', table.profile, (profile) => profile.email.$value, {
+ *     unique: true,
+ *   }),
+ *   jsonBtreeIndex<Profile>('users_age_idx', table.profile, (profile) => profile.age.$integer),
+ * ])
+ * // Used by: db.select().from(users).where(gt(jsonAccess(users.profile).age.$integer, 18))
+ */
+export function jsonBtreeIndex<Type>(
+  name: string,
+  column: ExtraConfigColumn,
+  leaves: (root: SQLJSONIndexAccess<Type>) => SQL | [SQL, ...SQL[]],
+  options?: SQLJSONBtreeIndexOptions,
+): IndexBuilder {
+  const [first, ...rest] = [leaves(access<Type>(column))].flat().map((leaf) => {
+    if (getJSONAccessLeafType(leaf)?.type === 'timestamptz')
+      throw new TypeError(
+        'jsonBtreeIndex does not support `$timestamp`, its cast is not immutable',
+      )
+    return sql`(${leaf})`
+  })
+  return (options?.unique ? uniqueIndex(name) : index(name)).using(
+    'btree',
+    first!,
+    ...rest,
+  )
+}
@@ -2,9 +2,12 @@ import { type SQL, sql } from 'drizzle-orm'
 import {
   normalizeNullish,
   type SQLJSONDenullify,
+  type SQLJSONExtractType,
   type SQLJSONIsNullish,
+  type SQLJSONMixedValue,
   type SQLJSONValue,
 } from '../common.ts'
+import { jsonBuild } from './build.ts'
 
 /**
  * Type helper to determine the result type of merging two JSON values
@@ -160,3 +163,191 @@ export function jsonMerge<
 >(left: Left, right: Right): SQL<FinalType> {
   return sql`${normalizeNullish(left)} || ${normalizeNullish(right)}` as SQL<FinalType>
 }
+
+/**
+ * How arrays found at the same position on both sides are combined by `jsonDeepMerge`:
+ * - `replace`: the right array replaces the left one
+ * - `concat`: elements of the right array are appended to the left one
+ * - `union`: only right elements not already present in the left array are appended (deduplicated)
+ */
+export type SQLJSONDeepMergeArrays = 'replace' | 'concat' | 'union'
+
+type SQLJSONFlatten<Type> = { [K in keyof Type]: Type[K] }
+
+type SQLJSONOptionalKeys<Type> = {
+  [K in keyof Type]-?: {} extends Pick<Type, K> ? K : never
+}[keyof Type]
+
+type SQLJSONDeepMergeObjects<
+  Left,
+  Right,
+  Arrays extends SQLJSONDeepMergeArrays,
+> = SQLJSONFlatten<
+  Omit<Left, keyof Right> &
+    Omit<Right, keyof Left> & {
+      // Keys always present on the right are merged recursively
+      [K in keyof Right as K extends keyof Left
+        ? K extends SQLJSONOptionalKeys<Right>
+          ? never
+          : K
+        : never]: SQLJSONDeepMergeValue<Left[K & keyof Left], Right[K], Arrays>
+    } & {
+      // Keys that may be missing on the right keep the left value as an alternative
+      [K in keyof Left as K extends keyof Right
+        ? K extends SQLJSONOptionalKeys<Right>
+          ? K
+          : never
+        : never]:
+        | Left[K]
+        | SQLJSONDeepMergeValue<
+            Left[K],
+            Exclude<Right[K & keyof Right], undefined>,
+            Arrays
+          >
+    }
+>
+
+/**
+ * Type helper to determine the result type of deep merging two JSON values.
+ * Objects are merged key by key, arrays follow the array strategy,
+ * any other combination resolves to the right value.
+ */
+type SQLJSONDeepMergeValue<
+  Left,
+  Right,
+  Arrays extends SQLJSONDeepMergeArrays,
+> = [Left] extends [never]
+  ? Right
+  : Right extends readonly any[]
+    ? Left extends readonly any[]
+      ? Arrays extends 'replace'
+        ? Right
+        : Array<Left[number] | Right[number]>
+      : Right
+    : Right extends object
+      ? Left extends readonly any[]
+        ? Right
+        : Left extends object
+          ? SQLJSONDeepMergeObjects<Left, Right, Arrays>
+          : Right
+      : Right
+
+/**
+ * Result type of `jsonDeepMerge`. SQL NULL on either side resolves to the other side.
+ */
+export type SQLJSONDeepMergeResult<
+  Left,
+  Right,
+  Arrays extends SQLJSONDeepMergeArrays = 'replace',
+> =
+  | SQLJSONDeepMergeValue<
+      SQLJSONDenullify<Left>,
+      SQLJSONDenullify<Right>,
+      Arrays
+    >
+  | (SQLJSONIsNullish<Left> extends true ? SQLJSONDenullify<Right> : never)
+  | (SQLJSONIsNullish<Right> extends true ? Left : never)
+
+function buildArrayMerge(
+  left: SQL,
+  right: SQL,
+  arrays: SQLJSONDeepMergeArrays,
+): SQL {
+  if (arrays === 'replace') return right
+  const combined =
+    arrays === 'concat'
+      ? sql`${left} || ${right}`
+      : sql`${left} || coalesce((select jsonb_agg(added.value order by added.ord) from (select element.value, min(element.ord) as ord from jsonb_array_elements(${right}) with ordinality as element(value, ord) where not exists (select 1 from jsonb_array_elements(${left}) as existing(value) where existing.value = element.value) group by element.value) as added), '[]'::jsonb)`
+  return sql`case when jsonb_typeof(${left}) = 'array' and jsonb_typeof(${right}) = 'array' then ${combined} else ${right} end`
+}
+
+/**
+ * Recursively merge two JSONB values in plain SQL, no server-side function is required.
+ * Nested objects are merged key by key, with the right value taking precedence,
+ * arrays are combined according to the `arrays` strategy and any other value
+ * (including JSON null) on the right replaces the left one.
+ * SQL NULL on either side resolves to the other side.
+ *
+ * The right object is flattened into its leaf paths with a recursive CTE,
+ * which are then applied to the left value one by one with `jsonb_set`.
+ *
+ * @param left The base JSONB value
+ * @param right The JSONB value merged into the base
+ * @param options.arrays How to combine arrays found on both sides (default: `replace`)
+ * @returns SQL expression representing the deeply merged JSONB value
+ *
+ * @example
+ * // Merge nested settings
+ * jsonDeepMerge(
+ *   sql`'{"settings": {"theme": "dark", "tags": ["a"]}}'::jsonb`,
+ *   sql`'{"settings": {"lang": "en", "tags": ["a", "b"]}}'::jsonb`,
+ *   { arrays: 'union' },
+ * )
+ * // Results in: {"settings": {"theme": "dark", "lang": "en", "tags": ["a", "b"]}}
+ */
+export function jsonDeepMerge<
+  Left extends SQLJSONValue,
+  Right extends SQLJSONValue,
+  Arrays extends SQLJSONDeepMergeArrays = 'replace',
+>(
+  left: Left,
+  right: Right,
+  options?: { arrays?: Arrays },
+): SQL<
+  SQLJSONDeepMergeResult<
+    SQLJSONExtractType<Left>,
+    SQLJSONExtractType<Right>,
+    Arrays
+  >
+> {
+  const arrays = options?.arrays ?? 'replace'
+  const leftValue = sql`input.l #> leaves.path`
+  const recursive = sql`(with recursive leaves(path, value) as (select array[entry.key], entry.value from jsonb_each(input.r) as entry union all select leaves.path || entry.key, entry.value from leaves, jsonb_each(case when jsonb_typeof(leaves.value) = 'object' and jsonb_typeof(${leftValue}) = 'object' then leaves.value else '{}'::jsonb end) as entry), steps(n, path, value) as (select row_number() over (), leaves.path, ${buildArrayMerge(leftValue, sql`leaves.value`, arrays)} from leaves where jsonb_typeof(leaves.value) <> 'object' or jsonb_typeof(${leftValue}) is distinct from 'object'), merged(n, doc) as (select 0::bigint, input.l union all select steps.n, jsonb_set(merged.doc, steps.path, steps.value) from merged join steps on steps.n = merged.n + 1) select merged.doc from merged order by merged.n desc limit 1)`
+  const shallow = buildArrayMerge(sql`input.l`, sql`input.r`, arrays)
+  return sql`(select case when jsonb_typeof(input.l) = 'object' and jsonb_typeof(input.r) = 'object' then ${recursive} else coalesce(${shallow}, input.l) end from (select ${left}, ${right}) as input(l, r))` as SQL<any>
+}
+
+/**
+ * Patch document accepted by `jsonMergePatch`: a recursive partial of the target type.
+ * `null` removes a key, so it is only allowed on optional keys.
+ */
+export type SQLJSONMergePatch<Type> = Type extends readonly any[]
+  ? Type
+  : Type extends object
+    ? {
+        [K in keyof Type]?:
+          | SQLJSONMergePatch<SQLJSONDenullify<Type[K]>>
+          | ({} extends Pick<Type, K> ? null : never)
+      }
+    : Type
+
+/**
+ * Apply an RFC 7396 JSON Merge Patch to a JSONB value in a single SQL expression.
+ * Keys set to null are removed, objects are patched recursively (a non-object target
+ * becomes `{}`) and any other value, including arrays, replaces the target value.
+ * A non-object patch replaces the whole target, SQL NULL leaves the target unchanged.
+ *
+ * The patch objects are walked with a recursive CTE, parents before children,
+ * and applied to the target with `jsonb_set` and `#-`.
+ *
+ * @param target The JSONB column or SQL expression to patch
+ * @param patch The merge patch, as a JS value (nested SQL expressions allowed) or SQL expression
+ * @returns SQL expression representing the patched JSONB value
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc7396
+ *
+ * @example
+ * // Apply a PATCH request body
+ * jsonMergePatch(users.profile, { name: 'Jane', nickname: null, address: { zip: '10115' } })
+ * // Results in: profile with "name" replaced, "nickname" removed and "address"."zip" set
+ */
+export function jsonMergePatch<
+  Target extends SQLJSONValue<object | null>,
+  Type extends SQLJSONExtractType<Target> = SQLJSONExtractType<Target>,
+>(
+  target: Target,
+  patch: SQLJSONMixedValue<SQLJSONMergePatch<SQLJSONDenullify<Type>>>,
+): SQL<Type> {
+  const patched = sql`(with recursive leaves(path, value) as (select array[entry.key], entry.value from jsonb_each(input.p) as entry union all select leaves.path || entry.key, entry.value from leaves, jsonb_each(case when jsonb_typeof(leaves.value) = 'object' then leaves.value else '{}'::jsonb end) as entry), steps(n, path, value) as (select row_number() over (order by cardinality(leaves.path)), leaves.path, leaves.value from leaves), patched(n, doc) as (select 0::bigint, case when jsonb_typeof(input.t) = 'object' then input.t else '{}'::jsonb end union all select steps.n, case when steps.value = 'null'::jsonb then patched.doc #- steps.path when jsonb_typeof(steps.value) <> 'object' then jsonb_set(patched.doc, steps.path, steps.value) when jsonb_typeof(patched.doc #> steps.path) = 'object' then patched.doc else jsonb_set(patched.doc, steps.path, '{}'::jsonb) end from patched join steps on steps.n = patched.n + 1) select patched.doc from patched order by patched.n desc limit 1)`
+  return sql`(select case when jsonb_typeof(input.p) = 'object' then ${patched} else coalesce(input.p, input.t) end from (select ${target}, ${jsonBuild(patch as any)}) as input(t, p))` as SQL<Type>
+}
@@ -0,0 +1,290 @@
+import { type SQL, sql } from 'drizzle-orm'
+import {
+  normalizeNullish,
+  type SQLJSONDenullify,
+  type SQLJSONExtractType,
+  type SQLJSONMixedValue,
+  type SQLJSONValue,
+} from '../common.ts'
+import { jsonBuild } from './build.ts'
+
+type SQLJSONPointerDepth = [never, 0, 1, 2, 3, 4, 5]
+
+type SQLJSONPointerEscapeTilde<Key extends string> =
+  Key extends `${infer Head}~${infer Rest}`
+    ? `${Head}~0${SQLJSONPointerEscapeTilde<Rest>}`
+    : Key
+
+type SQLJSONPointerEscapeSlash<Key extends string> =
+  Key extends `${infer Head}/${infer Rest}`
+    ? `${Head}~1${SQLJSONPointerEscapeSlash<Rest>}`
+    : Key
+
+type SQLJSONPointerEscape<Key extends string> = SQLJSONPointerEscapeSlash<
+  SQLJSONPointerEscapeTilde<Key>
+>
+
+type SQLJSONPointerUnescape<Token extends string> =
+  Token extends `${infer Head}~1${infer Rest}`
+    ? SQLJSONPointerUnescape<`${Head}/${Rest}`>
+    : Token extends `${infer Head}~0${infer Rest}`
+      ? `${Head}~${SQLJSONPointerUnescape<Rest>}`
+      : Token
+
+/**
+ * JSON Pointers (RFC 6901) to the nested values of a JSON type, up to 6 levels deep.
+ * Array elements are addressed by index, `-` addresses the position after the last element.
+ */
+export type SQLJSONPointer<Type, Depth extends number = 6> = 0 extends 1 & Type
+  ? string
+  : [Depth] extends [never]
+    ? string
+    : Type extends readonly any[]
+      ?
+          | `/${number | '-'}`
+          | `/${number}${SQLJSONPointer<
+              SQLJSONDenullify<Type[number]>,
+              SQLJSONPointerDepth[Depth]
+            >}`
+      : Type extends object
+        ? {
+            [K in keyof Type & string]-?:
+              | `/${SQLJSONPointerEscape<K>}`
+              | `/${SQLJSONPointerEscape<K>}${SQLJSONPointer<
+                  SQLJSONDenullify<Type[K]>,
+                  SQLJSONPointerDepth[Depth]
+                >}`
+          }[keyof Type & string]
+        : never
+
+/**
+ * Type of the value a JSON Pointer resolves to.
+ */
+export type SQLJSONPointerValue<Type, Pointer extends string> = 0 extends 1 &
+  Type
+  ? any
+  : Pointer extends ''
+    ? Type
+    : Pointer extends `/${infer Token}/${infer Rest}`
+      ? SQLJSONPointerValue<
+          SQLJSONDenullify<SQLJSONPointerChild<Type, Token>>,
+          `/${Rest}`
+        >
+      : Pointer extends `/${infer Token}`
+        ? SQLJSONPointerChild<Type, Token>
+        : never
+
+type SQLJSONPointerChild<
+  Type,
+  Token extends string,
+> = Type extends readonly any[]
+  ? Type[number]
+  : SQLJSONPointerUnescape<Token> extends keyof Type
+    ? Type[SQLJSONPointerUnescape<Token>]
+    : never
+
+/**
+ * A single RFC 6902 operation. Paths are JSON Pointers into the document type
+ * (`''` is the whole document) and values are typed from the pointer they target.
+ */
+export type SQLJSONPatchOperation<
+  Type = any,
+  Pointer extends string = SQLJSONPointer<Type> | '',
+> =
+  | {
+      [P in Pointer]: {
+        op: 'add' | 'replace' | 'test'
+        path: P
+        value: SQLJSONMixedValue<SQLJSONPointerValue<Type, P>>
+      }
+    }[Pointer]
+  | { op: 'remove'; path: Pointer }
+  | { op: 'move' | 'copy'; from: Pointer; path: Pointer }
+
+/**
+ * What happens when an operation cannot be applied (a failed `test`,
+ * a missing `path` or `from` location):
+ * - `raise`: the statement fails with `invalid input syntax for type integer: "JSON Patch ... failed at ..."`
+ *   (SQLSTATE `22P02`), as a failed cast is the only way to raise from an SQL expression
+ * - `null`: the whole expression evaluates to SQL NULL
+ */
+export type SQLJSONPatchFailure = 'raise' | 'null'
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into its unescaped reference tokens.
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/'))
+    throw new Error(`Invalid JSON Pointer: ${pointer}`)
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function buildPathArray(path: string[]) {
+  return sql`array[${sql.join(
+    path.map((p) => sql`${p}`.inlineParams()),
+    sql`,`,
+  )}]::text[]`
+}
+
+// Array indexes of RFC 6901
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/
+// Tokens PostgreSQL paths read as array indexes, which also allow
+// leading spaces, zeros and signs (negative indexes count from the end)
+const PG_ARRAY_INDEX = /^\s*[+-]?\d+$/
+
+/**
+ * Value at a path, SQL NULL when it is missing or when an array
+ * is traversed with a token that isn't an RFC 6901 array index
+ */
+function buildPointerValue(target: SQL, path: string[]): SQL {
+  const value = sql`${target} #> ${buildPathArray(path)}`
+  const arrays = path.flatMap((token, index) =>
+    ARRAY_INDEX.test(token) || !PG_ARRAY_INDEX.test(token)
+      ? []
+      : [
+          sql`jsonb_typeof(${target} #> ${buildPathArray(path.slice(0, index))}) = 'array'`,
+        ],
+  )
+  return arrays.length > 0
+    ? sql`(case when ${sql.join(arrays, sql` or `)} then null else ${value} end)`
+    : value
+}
+
+/**
+ * Apply a list of RFC 6902 JSON Patch operations to a JSONB value.
+ * Operations are compiled into a chain of `jsonb_set`, `jsonb_insert` and `#-` expressions,
+ * each receiving the result of the previous one, like `jsonSetPipe` does.
+ * `add` on an array index inserts before that element and `-` appends to the array.
+ * Array elements are addressed by RFC 6901 indexes only (no leading zeros or negative
+ * indexes), and `add` indexes can't be past the end of the array.
+ * Operations that cannot be applied (a failed `test`, a missing `path` or `from` location,
+ * an invalid array index) fail the whole patch according to `onFailure`.
+ *
+ * @param source The JSONB column or SQL expression to patch (SQL NULL is treated as JSON null)
+ * @param operations The JSON Patch operations, applied in order
+ * @param options.onFailure `raise` (default) to raise an error, `null` to return SQL NULL
+ * @returns SQL expression representing the patched JSONB value
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc6902
+ *
+ * @example
+ * // Append a tag and rename a field, but only if the version matches
+ * jsonPatch(posts.data, [
+ *   { op: 'test', path: '/version', value: 3 },
+ *   { op: 'add', path: '/tags/-', value: 'sql' },
+ *   { op: 'move', from: '/title', path: '/headline' },
+ * ])
+ */
+export function jsonPatch<
+  Source extends SQLJSONValue,
+  OnFailure extends SQLJSONPatchFailure = 'raise',
+  Type extends SQLJSONExtractType<Source> = SQLJSONExtractType<Source>,
+>(
+  source: Source,
+  operations: ReadonlyArray<SQLJSONPatchOperation<SQLJSONDenullify<Type>>>,
+  options?: { onFailure?: OnFailure },
+): SQL<OnFailure extends 'null' ? Type | null : Type> {
+  const onFailure = options?.onFailure ?? 'raise'
+  const doc = sql`input.doc`
+  const value = sql`input.value`
+
+  // The error message depends on the document, so the planner
+  // cannot evaluate the cast while folding constant expressions
+  function buildFailure(op: string, pointer: string) {
+    if (onFailure === 'null') return sql`null::jsonb`
+    const message = sql`${`JSON Patch ${op} failed at ${pointer || '""'}`}`
+    return sql`to_jsonb(concat(${message.inlineParams()}, left(${doc}::text, 0))::integer)`
+  }
+
+  function buildAdd(
+    target: SQL,
+    path: string[],
+    added: SQL,
+    failure: SQL,
+  ): SQL {
+    if (path.length === 0) return added
+    const last = path[path.length - 1]!
+    const parentValue = buildPointerValue(target, path.slice(0, -1))
+    const parent = sql`jsonb_typeof(${parentValue})`
+    const set = sql`jsonb_set(${target}, ${buildPathArray(path)}, ${added})`
+    const insert =
+      last === '-'
+        ? sql`jsonb_insert(${target}, ${buildPathArray([...path.slice(0, -1), '-1'])}, ${added}, true)`
+        : ARRAY_INDEX.test(last)
+          ? sql`case when ${sql.raw(last)} <= jsonb_array_length(${parentValue}) then jsonb_insert(${target}, ${buildPathArray(path)}, ${added}) else ${failure} end`
+          : undefined
+    return insert
+      ? sql`case ${parent} when 'object' then ${set} when 'array' then ${insert} else ${failure} end`
+      : sql`case ${parent} when 'object' then ${set} else ${failure} end`
+  }
+
+  function buildOperation(
+    operation: SQLJSONPatchOperation,
+  ): [expression: SQL, value?: SQL] {
+    const path = parsePointer(operation.path)
+    const pathArray = buildPathArray(path)
+    const current = buildPointerValue(doc, path)
+    const failure = buildFailure(operation.op, operation.path)
+    switch (operation.op) {
+      case 'add':
+        return [
+          buildAdd(doc, path, value, failure),
+          jsonBuild(operation.value as any),
+        ]
+      case 'remove':
+        if (path.length === 0) throw new Error('Cannot remove at root level')
+        return [
+          sql`case when ${current} is null then ${failure} else ${doc} #- ${pathArray} end`,
+        ]
+      case 'replace':
+        return [
+          path.length === 0
+            ? value
+            : sql`case when ${current} is null then ${failure} else jsonb_set(${doc}, ${pathArray}, ${value}, false) end`,
+          jsonBuild(operation.value as any),
+        ]
+      case 'test':
+        return [
+          sql`case when ${current} = ${value} then ${doc} else ${failure} end`,
+          jsonBuild(operation.value as any),
+        ]
+      case 'move':
+      case 'copy': {
+        const from = parsePointer(operation.from)
+        if (operation.op === 'move' && operation.from === operation.path)
+          return [doc]
+        if (
+          operation.op === 'move' &&
+          operation.path.startsWith(`${operation.from}/`)
+        )
+          throw new Error(
+            `Cannot move ${operation.from} into its own child ${operation.path}`,
+          )
+        const fromArray = buildPathArray(from)
+        const moved = sql`(${buildPointerValue(doc, from)})`
+        const target =
+          operation.op === 'move' ? sql`(${doc} #- ${fromArray})` : doc
+        return [
+          sql`case when ${moved} is null then ${buildFailure(operation.op, operation.from)} else ${buildAdd(target, path, moved, failure)} end`,
+        ]
+      }
+      default:
+        throw new Error(
+          `Unsupported JSON Patch operation: ${(operation as { op: string }).op}`,
+        )
+    }
+  }
+
+  return operations.reduce<SQL>((acc, operation) => {
+    const [expression, operationValue] = buildOperation(operation)
+    const input = operationValue
+      ? sql`(select ${acc}, ${operationValue}) as input(doc, value)`
+      : sql`(select ${acc}) as input(doc)`
+    // Documents that already failed stay SQL NULL
+    return sql`(select case when ${doc} is not null then ${expression} end from ${input})`
+  }, normalizeNullish(source) as SQL) as SQL<any>
+}
@@ -0,0 +1,385 @@
+import { type SQL, sql } from 'drizzle-orm'
+import type { AnyPgColumn } from 'drizzle-orm/pg-core'
+import {
+  buildJSONPathIndex,
+  type SQLJSONDenullify,
+  type SQLJSONExtractType,
+  type SQLJSONIsNullish,
+  type SQLJSONNullify,
+  type SQLJSONNullish,
+  type SQLJSONValue,
+} from '../common.ts'
+import {
+  jsonBuild,
+  type SQLJSONBuildMixedType,
+  type SQLJSONBuildUnwrapType,
+} from './build.ts'
+
+declare const pathType: unique symbol
+
+const pathExpression = Symbol('jsonpath')
+
+type SQLJSONPathScalar = string | number | boolean | null
+
+type SQLJSONPathUnwrap<Type> = Type extends readonly (infer Element)[]
+  ? Element
+  : Type
+
+type SQLJSONPathComparable<Type> = [Type] extends [SQLJSONPathScalar]
+  ? true
+  : false
+
+/**
+ * A boolean jsonpath expression, used in filters and `jsonPathMatch`.
+ * Predicates can be combined with `$and`, `$or` and negated with `$not`.
+ */
+export type SQLJSONPathPredicate = {
+  readonly expression: string
+  $and: (other: SQLJSONPathPredicate) => SQLJSONPathPredicate
+  $or: (other: SQLJSONPathPredicate) => SQLJSONPathPredicate
+  $not: () => SQLJSONPathPredicate
+}
+
+/**
+ * Any jsonpath item yielding values of the given type
+ */
+export type SQLJSONPathTyped<Type = unknown> = { readonly [pathType]: Type }
+
+/**
+ * A jsonpath item typed from the JSON structure it points to.
+ * Member access follows lax mode semantics: arrays are unwrapped automatically,
+ * so `root.items.name` selects the `name` of every element of `items`.
+ */
+export type SQLJSONPathNode<
+  Type,
+  ObjectType = SQLJSONDenullify<Type>,
+  Item = SQLJSONDenullify<SQLJSONPathUnwrap<ObjectType>>,
+> = { readonly [pathType]: Type } & (Item extends readonly any[]
+  ? {}
+  : Item extends object
+    ? { [K in keyof Item]-?: SQLJSONPathNode<Item[K]> }
+    : {}) &
+  (ObjectType extends readonly (infer Element)[]
+    ? {
+        /** Element at the index, negative ones count from the end, `[index]` */
+        $at: (index: number) => SQLJSONPathNode<Element>
+        /** Every element of the array, `[*]` */
+        $each: SQLJSONPathNode<Element>
+        /** Elements between two inclusive indices, negative ones count from the end, `[from to to]` */
+        $slice: (from: number, to: number) => SQLJSONPathNode<Element>
+      }
+    : {}) &
+  (Item extends readonly any[]
+    ? {}
+    : Item extends object
+      ? {
+          /** Every member value of the object, `.*` */
+          $members: SQLJSONPathNode<Item[keyof Item]>
+        }
+      : {}) & {
+    /** Keep only the items matching the predicate, `? (...)` */
+    $filter: (
+      predicate: (item: SQLJSONPathNode<Item>) => SQLJSONPathPredicate,
+    ) => SQLJSONPathNode<Item>
+    /** Whether the path yields at least one item, `exists (...)` */
+    $exists: () => SQLJSONPathPredicate
+  } & (SQLJSONPathComparable<Item> extends true
+    ? {
+        $eq: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+        $ne: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+        $gt: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+        $gte: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+        $lt: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+        $lte: (value: SQLJSONPathOperand<Item>) => SQLJSONPathPredicate
+      }
+    : {}) &
+  ([Item] extends [string]
+    ? {
+        /** POSIX regular expression match, `like_regex "pattern" flag "flags"` */
+        $likeRegex: (pattern: string, flags?: string) => SQLJSONPathPredicate
+        $startsWith: (
+          prefix: SQLJSONPathOperand<string>,
+        ) => SQLJSONPathPredicate
+      }
+    : {})
+
+/**
+ * A value compared against a jsonpath item: a literal or another path (including variables)
+ */
+export type SQLJSONPathOperand<Type> =
+  | Type
+  | null
+  | {
+      readonly [pathType]:
+        | (Type extends string
+            ? string
+            : Type extends number
+              ? number
+              : Type extends boolean
+                ? boolean
+                : Type)
+        | SQLJSONNullish
+    }
+
+/**
+ * Variables passed to the jsonpath functions, referenced as `$"name"` in the path
+ */
+export type SQLJSONPathVars = { [key: string]: SQLJSONBuildMixedType }
+
+export type SQLJSONPathVarNodes<Vars extends SQLJSONPathVars> = {
+  [K in keyof Vars]-?: SQLJSONPathNode<SQLJSONBuildUnwrapType<Vars[K]>>
+}
+
+export type SQLJSONPathBuilder<
+  Source extends SQLJSONValue,
+  Vars extends SQLJSONPathVars,
+  Result,
+> = (
+  root: SQLJSONPathNode<SQLJSONDenullify<SQLJSONExtractType<Source>>>,
+  vars: SQLJSONPathVarNodes<Vars>,
+) => Result
+
+type SQLJSONPathResult<Node extends SQLJSONPathTyped> = Exclude<
+  Node[typeof pathType],
+  undefined
+>
+
+type SQLJSONPathIsNullish<Source extends SQLJSONValue> = SQLJSONIsNullish<
+  SQLJSONExtractType<Source>
+> extends true
+  ? true
+  : Source extends AnyPgColumn
+    ? Source['_']['notNull'] extends true
+      ? false
+      : true
+    : false
+
+/**
+ * Render a scalar JS value as a jsonpath literal.
+ */
+export function buildJSONPathLiteral(value: unknown) {
+  if (value === null) return 'null'
+  if (typeof value === 'number' && !Number.isFinite(value))
+    throw new TypeError(`Invalid jsonpath literal: ${value}`)
+  if (['string', 'number', 'boolean'].includes(typeof value))
+    return JSON.stringify(value)
+  throw new TypeError('Only scalar values can be used in jsonpath expressions')
+}
+
+function buildOperand(value: any): string {
+  const path = value?.[pathExpression]
+  return typeof path === 'string' ? path : buildJSONPathLiteral(value)
+}
+
+function createPredicate(expression: string): SQLJSONPathPredicate {
+  return {
+    expression,
+    $and: (other) => createPredicate(`(${expression} && ${other.expression})`),
+    $or: (other) => createPredicate(`(${expression} || ${other.expression})`),
+    $not: () => createPredicate(`!(${expression})`),
+  }
+}
+
+const comparisons = {
+  $eq: '==',
+  $ne: '!=',
+  $gt: '>',
+  $gte: '>=',
+  $lt: '<',
+  $lte: '<=',
+} as const
+
+function createNode(path: string): any {
+  return new Proxy(Object.create(null), {
+    get(_, property) {
+      if (property === pathExpression) return path
+      if (typeof property === 'symbol')
+        throw new TypeError('Symbols are not supported in JSON paths')
+      if (property === '$each') return createNode(`${path}[*]`)
+      if (property === '$members') return createNode(`${path}.*`)
+      if (property === '$at') {
+        return (index: number) =>
+          createNode(`${path}[${buildJSONPathIndex(index)}]`)
+      }
+      if (property === '$slice') {
+        return (from: number, to: number) =>
+          createNode(
+            `${path}[${buildJSONPathIndex(from)} to ${buildJSONPathIndex(to)}]`,
+          )
+      }
+      if (property === '$filter') {
+        return (predicate: (item: any) => SQLJSONPathPredicate) =>
+          createNode(`${path} ? (${predicate(createNode('@')).expression})`)
+      }
+      if (property === '$exists') {
+        return () => createPredicate(`exists (${path})`)
+      }
+      if (Object.hasOwn(comparisons, property)) {
+        const operator = comparisons[property as keyof typeof comparisons]
+        return (value: unknown) =>
+          createPredicate(`${path} ${operator} ${buildOperand(value)}`)
+      }
+      if (property === '$likeRegex') {
+        return (pattern: string, flags?: string) =>
+          createPredicate(
+            `${path} like_regex ${JSON.stringify(pattern)}${flags ? ` flag ${JSON.stringify(flags)}` : ''}`,
+          )
+      }
+      if (property === '$startsWith') {
+        return (prefix: unknown) =>
+          createPredicate(`${path} starts with ${buildOperand(prefix)}`)
+      }
+      return createNode(`${path}.${JSON.stringify(property)}`)
+    },
+  })
+}
+
+/**
+ * Compile a jsonpath builder callback into the jsonpath expression string.
+ *
+ * @param builder Callback receiving the root (`$`) item and the variable items
+ * @returns The jsonpath expression, e.g. `$."items"[*] ? (@."price" > 10)`
+ */
+export function buildJSONPath<Type, Vars extends SQLJSONPathVars = {}>(
+  builder: (
+    root: SQLJSONPathNode<Type>,
+    vars: SQLJSONPathVarNodes<Vars>,
+  ) => SQLJSONPathTyped | SQLJSONPathPredicate,
+): string {
+  const vars = new Proxy(Object.create(null), {
+    get(_, property) {
+      if (typeof property === 'symbol')
+        throw new TypeError('Symbols are not supported in JSON paths')
+      return createNode(`$${JSON.stringify(property)}`)
+    },
+  })
+  const result: any = builder(createNode('$'), vars as any)
+  return typeof result[pathExpression] === 'string'
+    ? result[pathExpression]
+    : result.expression
+}
+
+/**
+ * Build the root (`$`) item of a jsonpath, for APIs taking nodes instead of a builder
+ * callback. Nodes are compiled with `buildJSONPath(() => node)`.
+ */
+export function buildJSONPathRoot<Type>(): SQLJSONPathNode<Type> {
+  return createNode('$')
+}
+
+function buildPathArgs(
+  builder: (root: any, vars: any) => any,
+  vars?: SQLJSONPathVars,
+) {
+  const path = sql`${buildJSONPath(builder)}::jsonpath`.inlineParams()
+  return vars ? sql`${path}, ${jsonBuild(vars)}` : path
+}
+
+/**
+ * Select all items matching a jsonpath as a JSONB array, using `jsonb_path_query_array`.
+ *
+ * @param source The JSONB value to query
+ * @param builder Callback building the path from the typed root item and variables
+ * @param vars Optional variables, referenced in the path through the second callback argument
+ * @returns SQL expression with the array of matched items
+ *
+ * @see https://www.postgresql.org/docs/current/functions-json.html#FUNCTIONS-SQLJSON-PATH
+ *
+ * @example
+ * // Names of all items more expensive than the given price
+ * jsonPathQuery(
+ *   orders.data,
+ *   (root, vars) => root.items.$each.$filter((item) => item.price.$gt(vars.min)).name,
+ *   { min: 10 },
+ * )
+ * // Results in: jsonb_path_query_array("orders"."data", '$."items"[*] ? (@."price" > $"min")."name"'::jsonpath, jsonb_build_object('min', $1::jsonb))
+ */
+export function jsonPathQuery<
+  Source extends SQLJSONValue,
+  Node extends SQLJSONPathTyped,
+  Vars extends SQLJSONPathVars = {},
+>(
+  source: Source,
+  builder: SQLJSONPathBuilder<Source, Vars, Node>,
+  vars?: Vars,
+): SQL<
+  SQLJSONNullify<SQLJSONPathIsNullish<Source>, SQLJSONPathResult<Node>[]>
+> {
+  return sql`jsonb_path_query_array(${source}, ${buildPathArgs(builder, vars)})`
+}
+
+/**
+ * Select the first item matching a jsonpath, using `jsonb_path_query_first`.
+ * Returns SQL NULL when nothing matches.
+ *
+ * @param source The JSONB value to query
+ * @param builder Callback building the path from the typed root item and variables
+ * @param vars Optional variables, referenced in the path through the second callback argument
+ * @returns SQL expression with the first matched item
+ *
+ * @example
+ * jsonPathQueryFirst(users.profile, (root) => root.emails.$each.$filter((e) => e.primary.$eq(true)).address)
+ */
+export function jsonPathQueryFirst<
+  Source extends SQLJSONValue,
+  Node extends SQLJSONPathTyped,
+  Vars extends SQLJSONPathVars = {},
+>(
+  source: Source,
+  builder: SQLJSONPathBuilder<Source, Vars, Node>,
+  vars?: Vars,
+): SQL<SQLJSONPathResult<Node> | null> {
+  return sql`jsonb_path_query_first(${source}, ${buildPathArgs(builder, vars)})`
+}
+
+/**
+ * Check whether a jsonpath yields any item.
+ * Without variables the `@?` operator is used, which is supported by GIN indexes,
+ * with variables it falls back to `jsonb_path_exists`.
+ *
+ * @param source The JSONB value to check
+ * @param builder Callback building the path from the typed root item and variables
+ * @param vars Optional variables, referenced in the path through the second callback argument
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonPathExists(users.profile, (root) => root.tags.$each.$filter((tag) => tag.$startsWith('admin')))
+ * // Results in: "users"."profile" @? '$."tags"[*] ? (@ starts with "admin")'::jsonpath
+ */
+export function jsonPathExists<
+  Source extends SQLJSONValue,
+  Vars extends SQLJSONPathVars = {},
+>(
+  source: Source,
+  builder: SQLJSONPathBuilder<Source, Vars, SQLJSONPathTyped>,
+  vars?: Vars,
+): SQL<SQLJSONNullify<SQLJSONPathIsNullish<Source>, boolean>> {
+  if (!vars) return sql`${source} @? ${buildPathArgs(builder)}`
+  return sql`jsonb_path_exists(${source}, ${buildPathArgs(builder, vars)})`
+}
+
+/**
+ * Evaluate a jsonpath predicate against the source.
+ * Without variables the `@@` operator is used, which is supported by GIN indexes,
+ * with variables it falls back to `jsonb_path_match`.
+ *
+ * @param source The JSONB value to check
+ * @param builder Callback building the predicate from the typed root item and variables
+ * @param vars Optional variables, referenced in the path through the second callback argument
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonPathMatch(users.profile, (root) => root.age.$gte(18).$and(root.name.$likeRegex('^j', 'i')))
+ * // Results in: "users"."profile" @@ '($."age" >= 18 && $."name" like_regex "^j" flag "i")'::jsonpath
+ */
+export function jsonPathMatch<
+  Source extends SQLJSONValue,
+  Vars extends SQLJSONPathVars = {},
+>(
+  source: Source,
+  builder: SQLJSONPathBuilder<Source, Vars, SQLJSONPathPredicate>,
+  vars?: Vars,
+): SQL<SQLJSONNullify<SQLJSONPathIsNullish<Source>, boolean>> {
+  if (!vars) return sql`${source} @@ ${buildPathArgs(builder)}`
+  return sql`jsonb_path_match(${source}, ${buildPathArgs(builder, vars)})`
+}
@@ -0,0 +1,131 @@
+import { type SQL, sql } from 'drizzle-orm'
+import type {
+  SQLJSONDeepPartial,
+  SQLJSONDenullify,
+  SQLJSONExtractType,
+  SQLJSONMixedValue,
+  SQLJSONValue,
+} from '../common.ts'
+import { jsonBuild } from './build.ts'
+
+/**
+ * Keys that can be tested with the `?`, `?|` and `?&` operators:
+ * property names for objects, string elements for arrays.
+ */
+export type SQLJSONKeyOf<Type> = Type extends readonly (infer Element)[]
+  ? Element extends string
+    ? Element
+    : never
+  : Type extends object
+    ? string extends keyof Type
+      ? string
+      : keyof Type & string
+    : never
+
+type TargetType<Target extends SQLJSONValue> = SQLJSONDenullify<
+  SQLJSONExtractType<Target>
+>
+
+function buildKeys(keys: string[]) {
+  return sql`array[${sql.join(
+    keys.map((key) => sql`${key}`.inlineParams()),
+    sql`,`,
+  )}]::text[]`
+}
+
+/**
+ * Check whether the target JSONB value contains the given value, using the `@>` operator.
+ * The check is supported by both `jsonb_ops` and `jsonb_path_ops` GIN indexes.
+ *
+ * @param target The JSONB value to check
+ * @param value A partial value (plain JS, SQL or mixed) that must be contained in the target
+ * @returns SQL boolean expression
+ *
+ * @see https://www.postgresql.org/docs/current/datatype-json.html#JSON-CONTAINMENT
+ *
+ * @example
+ * // Find users with dark theme enabled
+ * jsonContains(users.profile, { preferences: { theme: 'dark' } })
+ * // Results in: "users"."profile" @> jsonb_build_object('preferences', jsonb_build_object('theme', $1::jsonb))
+ */
+export function jsonContains<Target extends SQLJSONValue>(
+  target: Target,
+  value: SQLJSONMixedValue<SQLJSONDeepPartial<TargetType<Target>>>,
+): SQL<boolean> {
+  return sql`${target} @> ${jsonBuild(value as any)}`
+}
+
+/**
+ * Check whether the target JSONB value is contained in the given value, using the `<@` operator.
+ *
+ * @param target The JSONB value to check
+ * @param value The value that must contain the target
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonContainedBy(sql`'{"a": 1}'::jsonb`, { a: 1, b: 2 })
+ * // Results in: true
+ */
+export function jsonContainedBy<Target extends SQLJSONValue>(
+  target: Target,
+  value: SQLJSONMixedValue<TargetType<Target>>,
+): SQL<boolean> {
+  return sql`${target} <@ ${jsonBuild(value as any)}`
+}
+
+/**
+ * Check whether the key exists as a top-level key or array string element, using the `?` operator.
+ * The check is supported by `jsonb_ops` GIN indexes.
+ *
+ * @param target The JSONB object or array to check
+ * @param key The key to look up
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonHasKey(users.profile, 'preferences')
+ * // Results in: "users"."profile" ? 'preferences'
+ */
+export function jsonHasKey<Target extends SQLJSONValue>(
+  target: Target,
+  key: SQLJSONKeyOf<TargetType<Target>>,
+): SQL<boolean> {
+  return sql`${target} ? ${sql`${key}`.inlineParams()}`
+}
+
+/**
+ * Check whether any of the keys exist as top-level keys or array string elements, using the `?|` operator.
+ * The check is supported by `jsonb_ops` GIN indexes.
+ *
+ * @param target The JSONB object or array to check
+ * @param keys The keys to look up
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonHasAnyKeys(users.profile, ['email', 'phone'])
+ * // Results in: "users"."profile" ?| array['email','phone']::text[]
+ */
+export function jsonHasAnyKeys<Target extends SQLJSONValue>(
+  target: Target,
+  keys: Array<SQLJSONKeyOf<TargetType<Target>>>,
+): SQL<boolean> {
+  return sql`${target} ?| ${buildKeys(keys)}`
+}
+
+/**
+ * Check whether all of the keys exist as top-level keys or array string elements, using the `?&` operator.
+ * The check is supported by `jsonb_ops` GIN indexes.
+ *
+ * @param target The JSONB object or array to check
+ * @param keys The keys to look up
+ * @returns SQL boolean expression
+ *
+ * @example
+ * jsonHasAllKeys(users.profile, ['email', 'phone'])
+ * // Results in: "users"."profile" ?& array['email','phone']::text[]
+ */
+export function jsonHasAllKeys<Target extends SQLJSONValue>(
+  target: Target,
+  keys: Array<SQLJSONKeyOf<TargetType<Target>>>,
+): SQL<boolean> {
+  return sql`${target} ?& ${buildKeys(keys)}`
+}
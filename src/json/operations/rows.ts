@@ -0,0 +1,257 @@
+import {
+  type BuildColumns,
+  type ColumnsSelection,
+  getTableColumns,
+  type SQL,
+  Subquery,
+  sql,
+} from 'drizzle-orm'
+import {
+  type PgColumn,
+  type PgColumnBuilderBase,
+  pgTable,
+} from 'drizzle-orm/pg-core'
+import type {
+  SQLJSONDenullify,
+  SQLJSONExtractType,
+  SQLJSONNullish,
+  SQLJSONValue,
+} from '../common.ts'
+import { jsonCoalesce } from './coalesce.ts'
+
+/**
+ * A typed row source, usable in `db.select().from(...)` and lateral joins.
+ * Every field references a column of the source by its alias.
+ */
+export type SQLJSONRows<
+  Alias extends string,
+  Fields extends ColumnsSelection,
+> = Subquery<Alias, Fields> & Fields
+
+export type SQLJSONArrayElementsFields<Element> = {
+  value: SQL<Element>
+  ordinality: SQL<number>
+}
+
+export type SQLJSONEachFields<Type> = {
+  key: SQL<Extract<keyof Type, string>>
+  value: SQL<Type[keyof Type]>
+}
+
+type SQLJSONArrayElement<Source extends SQLJSONValue> = SQLJSONDenullify<
+  SQLJSONExtractType<Source>
+> extends readonly (infer Element)[]
+  ? Element
+  : never
+
+function buildRows<Alias extends string, Fields extends Record<string, SQL>>(
+  alias: Alias,
+  from: SQL,
+  fields: Array<[name: keyof Fields & string, decoder?: (value: any) => any]>,
+): SQLJSONRows<Alias, Fields> {
+  const selection = Object.fromEntries(
+    fields.map(([name, decoder]) => {
+      const field = sql`${sql.identifier(alias)}.${sql.identifier(name)}`
+      return [name, decoder ? field.mapWith(decoder) : field]
+    }),
+  ) as Fields
+  const subquery = new Subquery(sql`select * from ${from}`, selection, alias)
+  return Object.assign(subquery, selection) as SQLJSONRows<Alias, Fields>
+}
+
+/**
+ * Expand a JSONB array into rows of its elements (`jsonb_array_elements`),
+ * with the 1-based position of each element as `ordinality`.
+ * SQL NULL and JSON null produce no rows.
+ *
+ * @param source The JSONB array column or SQL expression
+ * @param alias Alias of the row source in the query
+ * @returns Typed row source with `value` and `ordinality` fields
+ *
+ * @example
+ * // One row per tag of every post
+ * const tags = jsonArrayElements(json.access(posts.data).tags.$path, 'tag')
+ * db.select({ id: posts.id, tag: tags.value })
+ *   .from(posts)
+ *   .innerJoinLateral(tags, sql`true`)
+ * // Results in: select "posts"."id", "tag"."value" from "posts"
+ * //   inner join lateral (select * from jsonb_array_elements(...) with ordinality) "tag" on true
+ */
+export function jsonArrayElements<
+  Source extends SQLJSONValue<any[] | SQLJSONNullish>,
+  Alias extends string,
+>(
+  source: Source,
+  alias: Alias,
+): SQLJSONRows<Alias, SQLJSONArrayElementsFields<SQLJSONArrayElement<Source>>> {
+  const array = jsonCoalesce(source, sql`'[]'::jsonb`)
+  return buildRows(alias, sql`jsonb_array_elements(${array}) with ordinality`, [
+    ['value'],
+    ['ordinality', Number],
+  ])
+}
+
+/**
+ * Expand a JSONB object into rows of its members (`jsonb_each`).
+ * SQL NULL and JSON null produce no rows.
+ *
+ * @param source The JSONB object column or SQL expression
+ * @param alias Alias of the row source in the query
+ * @returns Typed row source with `key` and `value` fields
+ *
+ * @example
+ * // Settings of every user as key/value rows
+ * const settings = jsonEach(users.settings, 'setting')
+ * db.select({ id: users.id, key: settings.key, value: settings.value })
+ *   .from(users)
+ *   .innerJoinLateral(settings, sql`true`)
+ */
+export function jsonEach<
+  Source extends SQLJSONValue<object | SQLJSONNullish>,
+  Alias extends string,
+>(
+  source: Source,
+  alias: Alias,
+): SQLJSONRows<
+  Alias,
+  SQLJSONEachFields<SQLJSONDenullify<SQLJSONExtractType<Source>>>
+> {
+  const object = jsonCoalesce(source, sql`'{}'::jsonb`)
+  return buildRows(alias, sql`jsonb_each(${object})`, [['key'], ['value']])
+}
+
+/**
+ * Build the columns of a row source from pg-core builders.
+ * Each builder is given its key as an explicit name, like `integer('age')`:
+ * the dialect caches the names of key-named columns by table name, which would
+ * mix up row sources sharing an alias, and casing must not rename JSON keys.
+ */
+export function buildRowColumns<
+  Alias extends string,
+  Columns extends Record<string, PgColumnBuilderBase>,
+>(alias: Alias, columns: Columns): BuildColumns<Alias, Columns, 'pg'> {
+  for (const [key, builder] of Object.entries(columns)) {
+    const { config } = builder as unknown as {
+      config: { name: string; keyAsName: boolean }
+    }
+    if (config.keyAsName) {
+      config.name = key
+      config.keyAsName = false
+    }
+  }
+  return getTableColumns(pgTable(alias, columns))
+}
+
+/**
+ * Build a row source selecting from a record function,
+ * with the column definition list of the given columns.
+ */
+function buildRecordRows<
+  Alias extends string,
+  Fields extends Record<string, PgColumn>,
+>(
+  alias: Alias,
+  fields: Fields,
+  from: (definitions: SQL) => SQL,
+): SQLJSONRows<Alias, Fields> {
+  const definitions = Object.values(fields).map(
+    (column) =>
+      sql`${sql.identifier(column.name)} ${sql.raw(column.getSQLType())}`,
+  )
+  const subquery = new Subquery(
+    sql`select * from ${from(sql`${sql.identifier(alias)}(${sql.join(definitions, sql`, `)})`)}`,
+    fields,
+    alias,
+  )
+  return Object.assign(subquery, fields) as SQLJSONRows<Alias, Fields>
+}
+
+/**
+ * Expand a JSONB array of objects into typed rows (`jsonb_to_recordset`),
+ * declared with pg-core column builders like {@link jsonToRecord}. The column
+ * names are the JSON keys, typed from the builders and decoded with their
+ * `mapFromDriverValue`; missing properties are NULL. SQL NULL and JSON null
+ * produce no rows.
+ *
+ * @param source The JSONB array column or SQL expression
+ * @param alias Alias of the row source in the query
+ * @param columns Column builders keyed by field name
+ * @returns Typed row source with a column per builder
+ *
+ * @example
+ * const items = jsonToRecordset(orders.items, 'item', {
+ *   id: integer(),
+ *   price: numeric({ mode: 'number' }),
+ * })
+ * db.select({ order: orders.id, price: items.price })
+ *   .from(orders)
+ *   .innerJoinLateral(items, sql`true`)
+ *   .where(eq(items.id, 42))
+ * // Results in: ... inner join lateral (select * from jsonb_to_recordset(...)
+ * //   as "item"("id" integer, "price" numeric)) "item" on true where "item"."id" = $1
+ */
+export function jsonToRecordset<
+  Source extends SQLJSONValue<object[] | SQLJSONNullish>,
+  Alias extends string,
+  Columns extends Record<string, PgColumnBuilderBase>,
+>(
+  source: Source,
+  alias: Alias,
+  columns: Columns,
+): SQLJSONRows<Alias, BuildColumns<Alias, Columns, 'pg'>> {
+  const fields = buildRowColumns(alias, columns)
+  if (Object.keys(fields).length === 0)
+    throw new Error('jsonToRecordset requires at least one column')
+  const array = jsonCoalesce(source, sql`'[]'::jsonb`)
+  return buildRecordRows(
+    alias,
+    fields,
+    (definitions) => sql`jsonb_to_recordset(${array}) as ${definitions}`,
+  )
+}
+
+/**
+ * Extract several fields of a JSONB object at once (`jsonb_to_record`),
+ * declared with pg-core column builders. The column names are the JSON keys
+ * and the fields are real columns of the row source, so they are typed from
+ * the builders and decoded with their `mapFromDriverValue` (including custom
+ * and temporal columns). The source yields a single row, all NULL for SQL NULL
+ * or JSON null; missing keys are NULL even for `notNull()` builders.
+ *
+ * @param source The JSONB object column or SQL expression
+ * @param alias Alias of the row source in the query
+ * @param columns Column builders keyed by field name
+ * @returns Typed row source with a column per builder
+ *
+ * @example
+ * const profile = jsonToRecord(users.profile, 'profile', {
+ *   age: integer(),
+ *   city: text(),
+ *   birthday: plainDate.column('birth_date'),
+ * })
+ * db.select({ id: users.id, age: profile.age, birthday: profile.birthday })
+ *   .from(users)
+ *   .crossJoinLateral(profile)
+ *   .where(gt(profile.age, 18))
+ * // Results in: ... cross join lateral (select * from jsonb_to_record(...)
+ * //   as "profile"("age" integer, "city" text, "birth_date" date)) "profile" where "profile"."age" > $1
+ */
+export function jsonToRecord<
+  Source extends SQLJSONValue<object | SQLJSONNullish>,
+  Alias extends string,
+  Columns extends Record<string, PgColumnBuilderBase>,
+>(
+  source: Source,
+  alias: Alias,
+  columns: Columns,
+): SQLJSONRows<Alias, BuildColumns<Alias, Columns, 'pg'>> {
+  const fields = buildRowColumns(alias, columns)
+  if (Object.keys(fields).length === 0)
+    throw new Error('jsonToRecord requires at least one column')
+  const object = jsonCoalesce(source, sql`'{}'::jsonb`)
+  return buildRecordRows(
+    alias,
+    fields,
+    (definitions) => sql`jsonb_to_record(${object}) as ${definitions}`,
+  )
+}
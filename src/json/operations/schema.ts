@@ -0,0 +1,460 @@
+import { SQL, sql } from 'drizzle-orm'
+import {
+  type CheckBuilder,
+  check,
+  customType,
+  type ExtraConfigColumn,
+} from 'drizzle-orm/pg-core'
+import { buildExtractPath } from '../common.ts'
+import { buildJSONPathLiteral } from './path.ts'
+import { jsonHasAllKeys } from './predicate.ts'
+
+/**
+ * The Standard Schema interface implemented by zod, valibot, arktype and others.
+ * Copied from the spec, as recommended, to avoid depending on it.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>
+    readonly types?: Types<Input, Output> | undefined
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult
+
+  export interface SuccessResult<Output> {
+    readonly value: Output
+    readonly issues?: undefined
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>
+  }
+
+  export interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input
+    readonly output: Output
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input']
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output']
+}
+
+/**
+ * A Standard Schema able to emit a JSON Schema, such as zod 4 schemas.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardJSONSchemaV1 {
+  readonly '~standard': {
+    readonly jsonSchema: {
+      readonly input: (options: { readonly target: string }) => unknown
+    }
+  }
+}
+
+export type SQLJSONSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+
+/**
+ * The JSON Schema keywords turned into CHECK constraints, others are ignored.
+ */
+export type SQLJSONSchemaDefinition = {
+  type?: SQLJSONSchemaType | readonly SQLJSONSchemaType[]
+  enum?: readonly unknown[]
+  const?: unknown
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+  items?: SQLJSONSchemaDefinition
+  properties?: Record<string, SQLJSONSchemaDefinition>
+  required?: readonly string[]
+  additionalProperties?: boolean | SQLJSONSchemaDefinition
+  allOf?: readonly SQLJSONSchemaDefinition[]
+  [keyword: string]: unknown
+}
+
+/**
+ * What happens when a value doesn't match the schema:
+ * - `throw`: throw an error listing the issues, valid values are kept as they are
+ * - `strip`: throw like `throw`, valid values are replaced by the schema output
+ *   (e.g. without the keys unknown to a zod object)
+ * - `log`: report the issues with `options.log`, the value is kept as it is
+ */
+export type SQLJSONSchemaMode = 'throw' | 'strip' | 'log'
+
+export type SQLJSONSchemaOptions = {
+  /** Validation mode, `throw` by default */
+  mode?: SQLJSONSchemaMode
+  /** Reporter of the `log` mode, `console.warn` by default */
+  log?: (message: string, issues: ReadonlyArray<StandardSchemaV1.Issue>) => void
+}
+
+function formatIssue(issue: StandardSchemaV1.Issue) {
+  const path = (issue.path ?? [])
+    .map((segment) =>
+      String(typeof segment === 'object' ? segment.key : segment),
+    )
+    .join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+function validate(
+  schema: StandardSchemaV1,
+  value: unknown,
+  direction: 'read' | 'write',
+  options: SQLJSONSchemaOptions,
+) {
+  const result = schema['~standard'].validate(value)
+  if (result instanceof Promise)
+    throw new TypeError('typedJsonb requires a synchronous schema')
+  if (!result.issues) return options.mode === 'strip' ? result.value : value
+
+  const message = `Invalid JSON ${direction === 'read' ? 'read from' : 'written to'} the database: ${result.issues.map(formatIssue).join('; ')}`
+  if (options.mode !== 'log') throw new TypeError(message)
+  const log = options.log ?? console.warn
+  log(message, result.issues)
+  return value
+}
+
+/**
+ * Create a JSONB column typed and validated by a Standard Schema (zod, valibot, arktype, ...).
+ * The column data is the schema output type, so accessors and setters are typed
+ * like with `jsonb().$type<...>()`. Values are validated when read from and written
+ * to the database; SQL expressions (e.g. from `jsonSet`) are written unchecked.
+ * Validation must be synchronous.
+ *
+ * @param name Column name in the database
+ * @param schema Standard Schema describing the JSON value
+ * @param options.mode What happens with invalid values, `throw` by default
+ * @param options.log Reporter of the `log` mode
+ * @returns Column builder of a `jsonb` column
+ *
+ * @example
+ * const Profile = z.object({ name: z.string(), age: z.number().optional() })
+ *
+ * const users = pgTable('users', {
+ *   id: serial().primaryKey(),
+ *   profile: typedJsonb('profile', Profile).notNull(),
+ *   legacy: typedJsonb('legacy', Profile, { mode: 'log' }),
+ * })
+ *
+ * // Typed from the schema
+ * db.select({ name: jsonAccess(users.profile).name.$value }).from(users)
+ * // Throws before querying: "Invalid JSON written to the database: name: Expected string, ..."
+ * db.insert(users).values({ profile: { name: 1 } as any })
+ */
+export function typedJsonb<
+  Name extends string,
+  Schema extends StandardSchemaV1,
+>(name: Name, schema: Schema, options: SQLJSONSchemaOptions = {}) {
+  return customType<{
+    data: StandardSchemaV1.InferOutput<Schema>
+    driverData: unknown
+  }>({
+    dataType: () => 'jsonb',
+    toDriver: (value) =>
+      value instanceof SQL
+        ? value
+        : JSON.stringify(validate(schema, value, 'write', options)),
+    fromDriver: (value) => {
+      let parsed = value
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value)
+        } catch {}
+      }
+      return validate(schema, parsed, 'read', options)
+    },
+  })(name)
+}
+
+const rangeOperators = {
+  minimum: '>=',
+  maximum: '<=',
+  exclusiveMinimum: '>',
+  exclusiveMaximum: '<',
+} as const
+
+function buildJSONLiteral(value: unknown) {
+  return sql`${JSON.stringify(value)}::jsonb`.inlineParams()
+}
+
+// Conditions on the items of an array, as jsonpath predicates on `@`
+function buildItemConditions(schema: SQLJSONSchemaDefinition) {
+  const conditions: Array<[keyword: string, condition: string]> = []
+  if (schema.type !== undefined) {
+    const types = [schema.type]
+      .flat()
+      .map((type) =>
+        type === 'integer'
+          ? '(@.type() == "number" && @ == @.floor())'
+          : `@.type() == ${JSON.stringify(type)}`,
+      )
+    conditions.push(['type', types.join(' || ')])
+  }
+  const values = schema.enum ?? ('const' in schema ? [schema.const] : null)
+  if (values)
+    conditions.push([
+      'enum',
+      values.map((value) => `@ == ${buildJSONPathLiteral(value)}`).join(' || '),
+    ])
+  for (const [keyword, operator] of Object.entries(rangeOperators)) {
+    const limit = schema[keyword]
+    if (typeof limit === 'number')
+      conditions.push([
+        keyword,
+        `!(@.type() == "number") || @ ${operator} ${limit}`,
+      ])
+  }
+  return conditions
+}
+
+// PostgreSQL truncates longer identifiers, which could make constraint names collide
+const MAX_IDENTIFIER_BYTES = 63
+
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex digits
+ */
+function hashName(name: string): string {
+  let hash = 0x811c9dc5
+  for (const byte of new TextEncoder().encode(name))
+    hash = Math.imul(hash ^ byte, 0x01000193) >>> 0
+  return hash.toString(16).padStart(8, '0')
+}
+
+/**
+ * Shorten names longer than PostgreSQL identifiers to their beginning
+ * followed by a hash of the whole name, so they stay distinct
+ */
+function buildConstraintName(name: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(name).length <= MAX_IDENTIFIER_BYTES) return name
+  const hash = `_${hashName(name)}`
+  const chars = Array.from(name).slice(0, MAX_IDENTIFIER_BYTES - hash.length)
+  while (
+    encoder.encode(chars.join('')).length + hash.length >
+    MAX_IDENTIFIER_BYTES
+  )
+    chars.pop()
+  return `${chars.join('')}${hash}`
+}
+
+function buildConditions(
+  column: ExtraConfigColumn,
+  schema: SQLJSONSchemaDefinition,
+  path: string[],
+): Array<[name: string, condition: SQL]> {
+  const target = buildExtractPath(column, path)
+  // Path tokens are escaped like JSON Pointers (RFC 6901) and keywords never
+  // contain `/`, so keys with `_`, `.` or `/` can't make two names collide
+  const name = (keyword: string) =>
+    [
+      ...path.map((key) => key.replace(/~/g, '~0').replace(/\//g, '~1')),
+      keyword,
+    ].join('/')
+  const when = (type: string, condition: SQL) =>
+    sql`case when jsonb_typeof(${target}) = ${sql`${type}`.inlineParams()} then ${condition} end`
+  const conditions: Array<[string, SQL]> = []
+
+  if (schema.type !== undefined) {
+    const types = [schema.type].flat()
+    const typeofs = types
+      .filter((type) => type !== 'integer')
+      .map((type) => sql`${type}`.inlineParams())
+    const integer = types.includes('integer') && !types.includes('number')
+    const alternatives = [
+      typeofs.length > 0
+        ? sql`jsonb_typeof(${target}) in (${sql.join(typeofs, sql`, `)})`
+        : undefined,
+      integer
+        ? sql`case when jsonb_typeof(${target}) = 'number' then (${target})::numeric % 1 = 0 else false end`
+        : undefined,
+    ].filter((condition) => condition !== undefined)
+    conditions.push([name('type'), sql.join(alternatives, sql` or `)])
+  }
+  if (schema.enum !== undefined)
+    conditions.push([
+      name('enum'),
+      sql`${target} in (${sql.join(schema.enum.map(buildJSONLiteral), sql`, `)})`,
+    ])
+  if ('const' in schema)
+    conditions.push([
+      name('const'),
+      sql`${target} = ${buildJSONLiteral(schema.const)}`,
+    ])
+  for (const [keyword, operator] of Object.entries(rangeOperators)) {
+    const limit = schema[keyword]
+    if (typeof limit === 'number')
+      conditions.push([
+        name(keyword),
+        when(
+          'number',
+          sql`(${target})::numeric ${sql.raw(operator)} ${sql`${limit}`.inlineParams()}`,
+        ),
+      ])
+  }
+  if (schema.minLength !== undefined)
+    conditions.push([
+      name('minLength'),
+      when(
+        'string',
+        sql`length(${target} #>> '{}') >= ${sql`${schema.minLength}`.inlineParams()}`,
+      ),
+    ])
+  if (schema.maxLength !== undefined)
+    conditions.push([
+      name('maxLength'),
+      when(
+        'string',
+        sql`length(${target} #>> '{}') <= ${sql`${schema.maxLength}`.inlineParams()}`,
+      ),
+    ])
+  if (schema.pattern !== undefined)
+    conditions.push([
+      name('pattern'),
+      when(
+        'string',
+        sql`(${target} #>> '{}') ~ ${sql`${schema.pattern}`.inlineParams()}`,
+      ),
+    ])
+  if (schema.minItems !== undefined)
+    conditions.push([
+      name('minItems'),
+      when(
+        'array',
+        sql`jsonb_array_length(${target}) >= ${sql`${schema.minItems}`.inlineParams()}`,
+      ),
+    ])
+  if (schema.maxItems !== undefined)
+    conditions.push([
+      name('maxItems'),
+      when(
+        'array',
+        sql`jsonb_array_length(${target}) <= ${sql`${schema.maxItems}`.inlineParams()}`,
+      ),
+    ])
+  if (schema.items !== undefined)
+    for (const [keyword, condition] of buildItemConditions(schema.items)) {
+      const jsonpath = `strict $[*] ? (!(${condition}))`
+      conditions.push([
+        name(`items_${keyword}`),
+        when(
+          'array',
+          sql`not (${target} @? ${sql`${jsonpath}::jsonpath`.inlineParams()})`,
+        ),
+      ])
+    }
+  if (schema.required !== undefined && schema.required.length > 0)
+    conditions.push([
+      name('required'),
+      when('object', jsonHasAllKeys(target as SQL<any>, [...schema.required])),
+    ])
+  if (schema.additionalProperties === false) {
+    const keys = Object.keys(schema.properties ?? {}).map((key) =>
+      sql`${key}`.inlineParams(),
+    )
+    conditions.push([
+      name('additionalProperties'),
+      when(
+        'object',
+        sql`(${target} - array[${sql.join(keys, sql`, `)}]::text[]) = '{}'::jsonb`,
+      ),
+    ])
+  }
+  for (const [key, property] of Object.entries(schema.properties ?? {}))
+    conditions.push(...buildConditions(column, property, [...path, key]))
+  for (const inner of schema.allOf ?? [])
+    conditions.push(...buildConditions(column, inner, path))
+  return conditions
+}
+
+/**
+ * Generate CHECK constraints enforcing a JSON Schema on a JSONB column, so the database
+ * rejects values that don't match the type the column claims.
+ * Supported keywords are `type`, `enum`, `const`, `minimum`, `maximum`, `exclusiveMinimum`,
+ * `exclusiveMaximum`, `minLength`, `maxLength`, `pattern`, `minItems`, `maxItems`,
+ * `properties`, `required`, `additionalProperties: false` and `allOf`, while `items`
+ * supports the type, enum and range keywords. Other keywords are ignored.
+ * Like JSON Schema, missing properties are only rejected by `required`,
+ * and SQL NULL columns pass (use `.notNull()`).
+ *
+ * @param column The JSONB column to validate
+ * @param schema JSON Schema, or a Standard Schema able to emit one
+ * @param name Prefix of the constraint names, followed by the path and keyword of each check
+ *   separated by `/` (names longer than 63 bytes end with a hash instead)
+ * @returns Array of check constraints
+ *
+ * @example
+ * const users = pgTable('users', {
+ *   profile: jsonb('profile').$type<Profile>().notNull(),
+ * }, (table) => [
+ *   ...jsonSchemaConstraints(table.profile, {
+ *     type: 'object',
+ *     required: ['name'],
+ *     properties: {
+ *       name: { type: 'string', minLength: 1 },
+ *       tags: { type: 'array', items: { type: 'string' } },
+ *     },
+ *   }),
+ * ])
+ * // Results in: check_profile_schema_type, check_profile_schema_required,
+ * //   check_profile_schema_name/type, check_profile_schema_name/minLength, ...
+ */
+export function jsonSchemaConstraints(
+  column: ExtraConfigColumn,
+  schema: SQLJSONSchemaDefinition | StandardJSONSchemaV1,
+  name = `check_${column.name}_schema`,
+): CheckBuilder[] {
+  const definition =
+    '~standard' in schema
+      ? ((schema as StandardJSONSchemaV1)['~standard'].jsonSchema.input({
+          target: 'draft-2020-12',
+        }) as SQLJSONSchemaDefinition)
+      : schema
+  // `allOf` may repeat a keyword at the same path
+  const counts = new Map<string, number>()
+  return buildConditions(column, definition, []).map(([suffix, condition]) => {
+    const count = (counts.get(suffix) ?? 0) + 1
+    counts.set(suffix, count)
+    return check(
+      buildConstraintName(`${name}_${suffix}${count > 1 ? `_${count}` : ''}`),
+      condition,
+    )
+  })
+}
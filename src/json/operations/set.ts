@@ -1,13 +1,17 @@
-import { sql } from 'drizzle-orm'
+import { isSQLWrapper, type SQLWrapper, sql } from 'drizzle-orm'
 import type { AnyPgColumn } from 'drizzle-orm/pg-core'
 import type { SQL } from 'drizzle-orm/sql'
 import {
   normalizeNullish,
+  type SQLJSONDeepPartial,
   type SQLJSONDenullify,
   type SQLJSONExtractType,
   type SQLJSONIsNullish,
+  type SQLJSONMixedValue,
   type SQLJSONValue,
 } from '../common.ts'
+import { jsonAccess, type SQLJSONAccess } from './access.ts'
+import { jsonArrayPush } from './array.ts'
 import { jsonBuild } from './build.ts'
 import { jsonCoalesce } from './coalesce.ts'
 
@@ -20,15 +24,79 @@ export type SQLJSONSetFn<Type, Source extends SQLJSONValue> = (
   createMissing?: boolean,
 ) => SQL<SQLJSONExtractType<Source>>
 
+export type SQLJSONUpdateFn<Type, Source extends SQLJSONValue> = (
+  fn: (
+    current: SQL<Type>,
+    access: SQLJSONAccess<SQL<Type>>,
+  ) => SQLJSONSetMixedValue<SQLJSONDenullify<Type>>,
+  createMissing?: boolean,
+) => SQL<SQLJSONExtractType<Source>>
+
+type SQLJSONIsWide<Type, Wide> = [Type] extends [Wide]
+  ? [Wide] extends [Type]
+    ? true
+    : false
+  : false
+
+/**
+ * Mutators of a leaf from its current value, only available when the leaf
+ * can hold any value of the result: numbers, booleans, strings and arrays
+ * (literal unions and tuples are excluded).
+ */
+export type SQLJSONSetMutators<
+  Type,
+  Source extends SQLJSONValue,
+> = (SQLJSONIsWide<Type, number> extends true
+  ? {
+      $increment: (by?: number | SQL<number>) => SQL<SQLJSONExtractType<Source>>
+      $decrement: (by?: number | SQL<number>) => SQL<SQLJSONExtractType<Source>>
+    }
+  : {}) &
+  (SQLJSONIsWide<Type, boolean> extends true
+    ? { $toggle: () => SQL<SQLJSONExtractType<Source>> }
+    : {}) &
+  (SQLJSONIsWide<Type, string> extends true
+    ? {
+        $concat: (
+          value: string | SQL<string>,
+        ) => SQL<SQLJSONExtractType<Source>>
+      }
+    : {}) &
+  (Type extends readonly any[]
+    ? number extends Type['length']
+      ? {
+          $push: (
+            ...values: Array<Type[number] | SQLJSONValue<Type[number]>>
+          ) => SQL<SQLJSONExtractType<Source>>
+        }
+      : {}
+    : {})
+
 export type SQLJSONDefaultFn<Type, Source extends SQLJSONValue> = (
   value: SQLJSONSetMixedValue<SQLJSONDenullify<Type>>,
   createMissing?: boolean,
 ) => SQLJSONSet<Source, SQL<SQLJSONDenullify<Type>>, false>
 
+export type SQLJSONDeleteFn<Source extends SQLJSONValue> = () => SQL<
+  SQLJSONExtractType<Source>
+>
+
+export type SQLJSONMergeFn<ObjectType, Source extends SQLJSONValue> = {
+  (
+    value: SQLJSONMixedValue<Partial<ObjectType>>,
+    options?: { deep?: false },
+  ): SQL<SQLJSONExtractType<Source>>
+  (
+    value: SQLJSONMixedValue<SQLJSONDeepPartial<ObjectType>>,
+    options: { deep: true },
+  ): SQL<SQLJSONExtractType<Source>>
+}
+
 export type SQLJSONSet<
   Source extends SQLJSONValue,
   Value extends SQLJSONValue,
   Root extends boolean,
+  Deletable extends boolean = false,
   Type extends SQLJSONExtractType<Value> = SQLJSONExtractType<Value>,
   ObjectType extends SQLJSONDenullify<Type> = SQLJSONDenullify<Type>,
   IsNullish extends boolean = SQLJSONIsNullish<Type> extends true
@@ -44,8 +112,15 @@ export type SQLJSONSet<
 > = (Root extends false
   ? {
       $set: SQLJSONSetFn<Type, Source>
-    }
+      $update: SQLJSONUpdateFn<Type, Source>
+    } & SQLJSONSetMutators<ObjectType, Source>
   : {}) &
+  (Deletable extends true ? { $delete: SQLJSONDeleteFn<Source> } : {}) &
+  (IsObject extends true
+    ? ObjectType extends any[]
+      ? {}
+      : { $merge: SQLJSONMergeFn<ObjectType, Source> }
+    : {}) &
   (IsNullish extends true
     ? IsObject extends true
       ? { $default: SQLJSONDefaultFn<Type, Source> }
@@ -64,10 +139,58 @@ export type SQLJSONSet<
                   ? null
                   : never)
           >,
-          false
+          false,
+          ObjectType extends any[]
+            ? true
+            : {} extends Pick<ObjectType, K>
+              ? true
+              : false
         >
       })
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isSQLWrapper(value)
+  )
+}
+
+/**
+ * Build an expression reading the source as `input.doc`, so it is only rendered once
+ * however many times the expression reads it (piped operations would otherwise
+ * repeat the previous ones in each step).
+ */
+function bindSource(source: SQLWrapper, build: (doc: SQL) => SQL): SQL {
+  return sql`(select ${build(sql`input.doc`)} from (select ${source}) as input(doc))`
+}
+
+/**
+ * Merge a partial object into the target object, treating anything but an object
+ * (SQL NULL, JSON null, scalars and arrays) as `{}`, like `jsonMergePatch` does.
+ * In deep mode, nested plain objects of the partial are merged recursively into the
+ * existing nested values instead of replacing them, SQL expressions and arrays always replace.
+ */
+function buildMergeValue(target: SQL, value: any, deep: boolean): SQL {
+  const base = sql`coalesce(jsonb_path_query_first(${target}, 'strict $ ? (@.type() == "object")'), '{}'::jsonb)`
+  if (!deep || !isPlainObject(value)) return sql`${base} || ${jsonBuild(value)}`
+  const entries = Object.entries(value)
+    .filter(([_, val]) => val !== undefined)
+    .map(([key, val]) => {
+      const keySQL = sql`${key}`.inlineParams()
+      const merged = isPlainObject(val)
+        ? buildMergeValue(
+            sql`jsonb_extract_path(${target}, ${keySQL})`,
+            val,
+            deep,
+          )
+        : jsonBuild(val as any)
+      return sql`${keySQL}, ${merged}`
+    })
+  return sql`${base} || jsonb_build_object(${sql.join(entries, sql`,`)})`
+}
+
 export function jsonSet<Source extends SQLJSONValue<object>>(
   source: Source,
 ): SQLJSONSet<Source, Source, true> {
@@ -83,6 +206,31 @@ export function jsonSet<Source extends SQLJSONValue<object>>(
       return sql`jsonb_set(${source}, ${pathArray}, ${setValueSQL}, ${sql`${createMissing}`.inlineParams()})`
     }
 
+    // The current value is read from the source, so updates chained by
+    // `$default` or `jsonSetPipe` see the previous changes
+    function buildUpdate(
+      path: string[],
+      fn: (current: SQL, access: any) => any,
+      createMissing = true,
+    ) {
+      if (path.length === 0) throw new Error('Cannot update at root level')
+      const pathArgs = sql.join(
+        path.map((p) => sql`${p}`.inlineParams()),
+        sql`,`,
+      )
+      const pathArray = sql`array[${pathArgs}]::text[]`
+      return bindSource(source, (doc) => {
+        const current = sql`jsonb_extract_path(${doc}, ${pathArgs})`
+        const value = fn(current, jsonAccess(current))
+        // SQL results may be of any type (bare parameters need a cast),
+        // SQL NULL becomes JSON null instead of nulling the whole document
+        const updateValueSQL = isSQLWrapper(value)
+          ? normalizeNullish(sql`to_jsonb(${value})`)
+          : jsonBuild(value)
+        return sql`jsonb_set(${doc}, ${pathArray}, ${updateValueSQL}, ${sql`${createMissing}`.inlineParams()})`
+      })
+    }
+
     function buildDefault(path: string[], value: any, createMissing = true) {
       const defaultValueSQL = jsonBuild(value)
       if (path.length === 0)
@@ -98,6 +246,32 @@ export function jsonSet<Source extends SQLJSONValue<object>>(
       )
     }
 
+    function buildMerge(path: string[], value: any, deep = false) {
+      const pathArgs = sql.join(
+        path.map((p) => sql`${p}`.inlineParams()),
+        sql`,`,
+      )
+      const pathArray = sql`array[${pathArgs}]::text[]`
+      return bindSource(source, (doc) => {
+        if (path.length === 0) return buildMergeValue(doc, value, deep)
+        const merged = buildMergeValue(
+          sql`jsonb_extract_path(${doc}, ${pathArgs})`,
+          value,
+          deep,
+        )
+        return sql`jsonb_set(${doc}, ${pathArray}, ${merged}, true)`
+      })
+    }
+
+    function buildDelete(path: string[]) {
+      if (path.length === 0) throw new Error('Cannot delete at root level')
+      const pathArray = sql`array[${sql.join(
+        path.map((p) => sql`${p}`.inlineParams()),
+        sql`,`,
+      )}]::text[]`
+      return sql`${source} #- ${pathArray}`
+    }
+
     function createValue(path: string[], property?: string) {
       const pathArr = property ? [...path, property] : path
       return createProxy(pathArr)
@@ -113,6 +287,50 @@ export function jsonSet<Source extends SQLJSONValue<object>>(
               return buildSet(path, value, createMissing)
             }
           }
+          if (property === '$update') {
+            return (
+              fn: (current: SQL, access: any) => any,
+              createMissing = true,
+            ) => buildUpdate(path, fn, createMissing)
+          }
+          // Missing and null leaves count as 0, false, '' and []
+          if (property === '$increment' || property === '$decrement') {
+            const operator = sql.raw(property === '$increment' ? '+' : '-')
+            return (by: any = 1) =>
+              buildUpdate(
+                path,
+                (_, current) =>
+                  sql`coalesce(${current.$number}, 0) ${operator} ${by}`,
+              )
+          }
+          if (property === '$toggle') {
+            return () =>
+              buildUpdate(
+                path,
+                (_, current) => sql`not coalesce(${current.$boolean}, false)`,
+              )
+          }
+          if (property === '$concat') {
+            return (value: any) =>
+              buildUpdate(
+                path,
+                (_, current) =>
+                  sql`coalesce(${current.$value}, '') || ${value}`,
+              )
+          }
+          if (property === '$push') {
+            return (...values: any[]) =>
+              buildUpdate(path, (current) =>
+                jsonArrayPush(current as SQL<any[]>, ...values),
+              )
+          }
+          if (property === '$merge') {
+            return (value: any, options?: { deep?: boolean }) =>
+              buildMerge(path, value, options?.deep)
+          }
+          if (property === '$delete') {
+            return () => buildDelete(path)
+          }
           if (property === '$default') {
             return (value: any, createMissing = true) => {
               return buildDefault(path, value, createMissing)
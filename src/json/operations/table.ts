@@ -0,0 +1,257 @@
+import { type BuildColumns, type SQL, Subquery, sql } from 'drizzle-orm'
+import type { AnyPgColumn, PgColumnBuilderBase } from 'drizzle-orm/pg-core'
+import type {
+  SQLJSONDenullify,
+  SQLJSONExtractType,
+  SQLJSONValue,
+} from '../common.ts'
+import {
+  buildJSONPath,
+  buildJSONPathRoot,
+  type SQLJSONPathNode,
+  type SQLJSONPathTyped,
+} from './path.ts'
+import { buildRowColumns, type SQLJSONRows } from './rows.ts'
+
+/**
+ * The path item of a `JSON_TABLE` row, typed from the item type of the row path.
+ */
+export type SQLJSONTableRowNode<Row> = SQLJSONPathNode<Row>
+
+/**
+ * A `JSON_TABLE` column: a pg-core column builder, read from the member named
+ * like the column, or a builder with an explicit path built from the row item.
+ */
+export type SQLJSONTableColumn =
+  | PgColumnBuilderBase
+  | { column: PgColumnBuilderBase; path: SQLJSONPathTyped }
+
+export type SQLJSONTableColumns = Record<string, SQLJSONTableColumn>
+
+/**
+ * Columns of a `JSON_TABLE` level, as a function of the row item
+ * when some of them are read from another path.
+ */
+export type SQLJSONTableColumnsOf<
+  Row,
+  Columns extends SQLJSONTableColumns = SQLJSONTableColumns,
+> = Columns | ((row: SQLJSONTableRowNode<Row>) => Columns)
+
+/**
+ * A `NESTED PATH` clause: its columns are joined to the parent row,
+ * NULL when the nested path yields no items. Its paths are built from the row
+ * item like the other columns, inside the path of the enclosing clause.
+ * Up to 4 levels are typed.
+ */
+export type SQLJSONTableNested<Row = any> = {
+  path: (row: SQLJSONTableRowNode<Row>) => SQLJSONPathTyped
+  columns: SQLJSONTableColumnsOf<Row>
+  nested?: SQLJSONTableNested<Row> | readonly SQLJSONTableNested<Row>[]
+}
+
+type SQLJSONTableBuilders<Level> = SQLJSONTableLevelBuilders<
+  Level extends (row: any) => infer Columns ? Columns : Level
+>
+
+type SQLJSONTableLevelBuilders<Columns> = {
+  [K in keyof Columns]: Columns[K] extends {
+    column: infer Builder extends PgColumnBuilderBase
+  }
+    ? Builder
+    : Columns[K]
+}
+
+type SQLJSONTableNestedDepth = [never, 0, 1, 2, 3]
+
+type SQLJSONTableNestedBuilders<Nested, Depth extends number = 4> = [
+  Depth,
+] extends [never]
+  ? {}
+  : Nested extends readonly [infer First, ...infer Rest]
+    ? SQLJSONTableNestedBuilders<First, Depth> &
+        SQLJSONTableNestedBuilders<Rest, Depth>
+    : Nested extends { columns: infer Columns; nested?: infer Inner }
+      ? SQLJSONTableBuilders<Columns> &
+          SQLJSONTableNestedBuilders<Inner, SQLJSONTableNestedDepth[Depth]>
+      : {}
+
+export type SQLJSONTableFields<
+  Alias extends string,
+  Columns,
+  Nested,
+> = BuildColumns<
+  Alias,
+  SQLJSONTableBuilders<Columns> & SQLJSONTableNestedBuilders<Nested>,
+  'pg'
+>
+
+type SQLJSONTableLevel = {
+  path: string
+  columns: string[]
+  nested: SQLJSONTableLevel[]
+}
+
+function buildPathLiteral(path: string) {
+  return sql`${path}`.inlineParams()
+}
+
+/**
+ * Turn nested JSON into relational rows with the SQL/JSON `JSON_TABLE` function
+ * (PostgreSQL 17+). The row path is built from the source type like in `jsonPathQuery`,
+ * columns are declared with pg-core column builders, so the fields are typed from
+ * the builders and decoded with their `mapFromDriverValue`. Columns read from another
+ * path are given as a function of the row item, typed from the row path; paths of
+ * nested clauses are built from the same row item and made relative to the enclosing
+ * nested path. Use `assertJSONTableSupport` to fail early on older servers.
+ *
+ * @param source The JSONB column or SQL expression
+ * @param alias Alias of the row source in the query
+ * @param options.path Builder of the path yielding one row per item
+ * @param options.columns Column builders keyed by field name, read from the member named like the column unless a path is given (as a function of the row item)
+ * @param options.nested `NESTED PATH` clauses, whose columns are added to the fields
+ * @returns Typed row source with a column per builder
+ *
+ * @see https://www.postgresql.org/docs/17/functions-json.html#FUNCTIONS-SQLJSON-TABLE
+ *
+ * @example
+ * const item = jsonTable(orders.data, 'item', {
+ *   path: (root) => root.items.$each,
+ *   columns: (item) => ({
+ *     sku: text(),
+ *     qty: integer(),
+ *     city: { column: text(), path: item.shipping.city },
+ *   }),
+ *   nested: {
+ *     path: (item) => item.tags.$each,
+ *     columns: (item) => ({ tag: { column: text(), path: item.tags.$each } }),
+ *   },
+ * })
+ * db.select({ order: orders.id, sku: item.sku, tag: item.tag })
+ *   .from(orders)
+ *   .crossJoinLateral(item)
+ * // Results in: ... cross join lateral (select * from json_table("orders"."data", '$."items"[*]'
+ * //   columns ("sku" text path '$."sku"', "qty" integer path '$."qty"', "city" text path '$."shipping"."city"',
+ * //   nested path '$."tags"[*]' columns ("tag" text path '$'))) as "item") "item"
+ */
+export function jsonTable<
+  Source extends SQLJSONValue,
+  Alias extends string,
+  Row,
+  Columns extends SQLJSONTableColumns,
+  const Nested,
+>(
+  source: Source,
+  alias: Alias,
+  options: {
+    path: (
+      root: SQLJSONPathNode<SQLJSONDenullify<SQLJSONExtractType<Source>>>,
+    ) => SQLJSONPathTyped<Row>
+    columns: SQLJSONTableColumnsOf<Row, Columns>
+    nested?: Nested &
+      (SQLJSONTableNested<Row> | readonly SQLJSONTableNested<Row>[])
+  },
+): SQLJSONRows<Alias, SQLJSONTableFields<Alias, Columns, Nested>> {
+  const builders: Record<string, PgColumnBuilderBase> = {}
+  const paths: Record<string, string> = {}
+
+  // Paths built from the row item are made relative to the nested path they are in
+  function relative(path: string, base: string) {
+    if (base === '$') return path
+    if (!path.startsWith(base))
+      throw new Error(
+        `JSON_TABLE path ${path} is not inside the nested path ${base}`,
+      )
+    return `$${path.slice(base.length)}`
+  }
+
+  function collect(
+    path: string,
+    base: string,
+    level: SQLJSONTableColumnsOf<any>,
+    nested: SQLJSONTableNested | readonly SQLJSONTableNested[] = [],
+  ): SQLJSONTableLevel {
+    const columns =
+      typeof level === 'function' ? level(buildJSONPathRoot()) : level
+    for (const [key, column] of Object.entries(columns)) {
+      if (Object.hasOwn(builders, key))
+        throw new Error(`Duplicate JSON_TABLE column: ${key}`)
+      if ('column' in column && 'path' in column) {
+        builders[key] = column.column
+        paths[key] = relative(
+          buildJSONPath(() => column.path),
+          base,
+        )
+      } else {
+        builders[key] = column as PgColumnBuilderBase
+      }
+    }
+    return {
+      path,
+      columns: Object.keys(columns),
+      nested: [nested].flat().map((inner) => {
+        const innerBase = buildJSONPath(inner.path)
+        return collect(
+          relative(innerBase, base),
+          innerBase,
+          inner.columns,
+          inner.nested,
+        )
+      }),
+    }
+  }
+
+  const root = collect(
+    buildJSONPath(options.path),
+    '$',
+    options.columns as SQLJSONTableColumnsOf<any>,
+    options.nested as SQLJSONTableNested | undefined,
+  )
+  const fields = buildRowColumns(alias, builders)
+  if (Object.keys(fields).length === 0)
+    throw new Error('jsonTable requires at least one column')
+
+  function buildColumns(level: SQLJSONTableLevel): SQL {
+    const definitions = [
+      ...level.columns.map((key) => {
+        const column = fields[key] as AnyPgColumn
+        const path = paths[key] ?? `$.${JSON.stringify(column.name)}`
+        return sql`${sql.identifier(column.name)} ${sql.raw(column.getSQLType())} path ${buildPathLiteral(path)}`
+      }),
+      ...level.nested.map(
+        (nested) =>
+          sql`nested path ${buildPathLiteral(nested.path)} ${buildColumns(nested)}`,
+      ),
+    ]
+    return sql`columns (${sql.join(definitions, sql`, `)})`
+  }
+
+  const subquery = new Subquery(
+    sql`select * from json_table(${source}, ${buildPathLiteral(root.path)} ${buildColumns(root)}) as ${sql.identifier(alias)}`,
+    fields,
+    alias,
+  )
+  return Object.assign(subquery, fields) as any
+}
+
+/**
+ * Check that the server supports `JSON_TABLE` (PostgreSQL 17+),
+ * throwing an error naming the server version otherwise.
+ *
+ * @param db Drizzle database (or transaction) to check
+ *
+ * @example
+ * // At application startup
+ * await assertJSONTableSupport(db)
+ */
+export async function assertJSONTableSupport(db: {
+  execute: (query: SQL) => PromiseLike<unknown>
+}): Promise<void> {
+  const result: any = await db.execute(
+    sql`select current_setting('server_version_num') as version_num, current_setting('server_version') as version`,
+  )
+  const [row] = Array.isArray(result) ? result : result.rows
+  if (Number(row.version_num) < 170000)
+    throw new Error(
+      `JSON_TABLE requires PostgreSQL 17 or later, the server runs PostgreSQL ${row.version}`,
+    )
+}
@@ -235,6 +235,188 @@ describe('JSON Accessor', () => {
     })
   })
 
+  describe('Array Index Access', () => {
+    const index = (target: string, operator: string, segment: number) =>
+      `coalesce(${target} ${operator} ${segment}, ${target} ${operator} '${segment}')`
+
+    it('uses integer operands for array indices', () => {
+      const accessor = jsonAccess(jsonObject)
+      const query = dialect.sqlToQuery(accessor.tags[0].$path)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        index(`jsonb_extract_path(${jsonObjectSql}, 'tags')`, '->', 0),
+      )
+    })
+
+    it('supports negative indices', () => {
+      const accessor = jsonAccess(jsonObject)
+      const query = dialect.sqlToQuery(accessor.tags[-1].$value)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        index(`jsonb_extract_path(${jsonObjectSql}, 'tags')`, '->>', -1),
+      )
+    })
+
+    it('continues key access after an index', () => {
+      const accessor = jsonAccess(table.arraycol)
+      const query = dialect.sqlToQuery(accessor[-1].name.$value)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `jsonb_extract_path_text(${index('"test"."arraycol"', '->', -1)}, 'name')`,
+      )
+    })
+
+    it('handles consecutive indices', () => {
+      const matrix = sql<number[][]>`'[[1, 2], [3, 4]]'::jsonb`
+      const query = dialect.sqlToQuery(jsonAccess(matrix)[1][-1].$path)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        index(index(`'[[1, 2], [3, 4]]'::jsonb`, '->', 1), '->', -1),
+      )
+    })
+
+    it('falls back to text keys for integer-like object keys', () => {
+      const byYear = sql<
+        Record<string, { n: number }>
+      >`'{"2024": {"n": 1}}'::jsonb`
+      const query = dialect.sqlToQuery(jsonAccess(byYear)['2024'].n.$value)
+
+      expect(query.sql).toBe(
+        `jsonb_extract_path_text(${index(`'{"2024": {"n": 1}}'::jsonb`, '->', 2024)}, 'n')`,
+      )
+    })
+
+    it('keeps keys too long for an integer as text segments', () => {
+      const byId = sql<Record<string, string>>`'{}'::jsonb`
+      const query = dialect.sqlToQuery(jsonAccess(byId)['12345678901'].$value)
+
+      expect(query.sql).toBe(
+        `jsonb_extract_path_text('{}'::jsonb, '12345678901')`,
+      )
+    })
+
+    it('extracts root value as text', () => {
+      const query = dialect.sqlToQuery(jsonAccess(table.jsoncol).$value)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`("test"."jsoncol" #>> '{}')`)
+    })
+
+    it('types array elements as nullable', () => {
+      const accessor = jsonAccess(jsonObject)
+
+      expectTypeOf(accessor.tags[0]).toEqualTypeOf<
+        SQLJSONAccess<SQL<string | null>>
+      >()
+      expectTypeOf(accessor.tags[-1]).toEqualTypeOf<
+        SQLJSONAccess<SQL<string | null>>
+      >()
+      expectTypeOf(jsonAccess(table.arraycol)[2].id.$value).toEqualTypeOf<
+        SQL<number | null>
+      >()
+    })
+
+    it('types tuple elements by position', () => {
+      const tuple = sql<{
+        point: [number, string, { x: boolean }]
+      }>`'{"point": [1, "a", {"x": true}]}'::jsonb`
+      const accessor = jsonAccess(tuple)
+
+      expectTypeOf(accessor.point[0]).toEqualTypeOf<
+        SQLJSONAccess<SQL<number>>
+      >()
+      expectTypeOf(accessor.point[1]).toEqualTypeOf<
+        SQLJSONAccess<SQL<string>>
+      >()
+      expectTypeOf(accessor.point[-1].x).toEqualTypeOf<
+        SQLJSONAccess<SQL<boolean>>
+      >()
+      expectTypeOf(accessor.point[-3]).toEqualTypeOf<
+        SQLJSONAccess<SQL<number>>
+      >()
+      expectTypeOf(accessor.point).not.toHaveProperty('3')
+      expectTypeOf(accessor.point).not.toHaveProperty('-4')
+    })
+  })
+
+  describe('Scalar Casts', () => {
+    type CastType = {
+      age: number
+      active: boolean
+      createdAt: string
+      status: 'open' | 'closed'
+      score?: number
+      nested: { flag: boolean }
+    }
+    const castSql = `'{"age": 42, "active": true, "createdAt": "2024-01-01T00:00:00Z", "status": "open", "nested": {"flag": false}}'::jsonb`
+    const castObject = sql<CastType>`${sql.raw(castSql)}`
+
+    it('casts numeric leaves', () => {
+      const accessor = jsonAccess(castObject)
+
+      expect(dialect.sqlToQuery(accessor.age.$number).sql).toBe(
+        `(jsonb_extract_path_text(${castSql}, 'age'))::numeric`,
+      )
+      expect(dialect.sqlToQuery(accessor.age.$integer).sql).toBe(
+        `(jsonb_extract_path_text(${castSql}, 'age'))::integer`,
+      )
+      expectTypeOf(accessor.age.$number).toEqualTypeOf<SQL<number>>()
+      expectTypeOf(accessor.score.$number).toEqualTypeOf<SQL<number | null>>()
+    })
+
+    it('casts boolean leaves', () => {
+      const accessor = jsonAccess(castObject)
+      const query = dialect.sqlToQuery(accessor.nested.flag.$boolean)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `(jsonb_extract_path_text(${castSql}, 'nested','flag'))::boolean`,
+      )
+      expectTypeOf(accessor.active.$boolean).toEqualTypeOf<SQL<boolean>>()
+    })
+
+    it('casts string leaves', () => {
+      const accessor = jsonAccess(castObject)
+
+      expect(dialect.sqlToQuery(accessor.status.$text).sql).toBe(
+        `(jsonb_extract_path_text(${castSql}, 'status'))::text`,
+      )
+      expect(dialect.sqlToQuery(accessor.createdAt.$timestamp).sql).toBe(
+        `(jsonb_extract_path_text(${castSql}, 'createdAt'))::timestamptz`,
+      )
+      expectTypeOf(accessor.status.$text).toEqualTypeOf<
+        SQL<'open' | 'closed'>
+      >()
+      expectTypeOf(accessor.age.$text).toEqualTypeOf<SQL<string>>()
+      expectTypeOf(accessor.createdAt.$timestamp).toEqualTypeOf<SQL<Date>>()
+    })
+
+    it('casts array elements', () => {
+      const accessor = jsonAccess(table.arraycol)
+      const query = dialect.sqlToQuery(accessor[-1].id.$integer)
+
+      expect(query.sql).toBe(
+        `(jsonb_extract_path_text(coalesce("test"."arraycol" -> -1, "test"."arraycol" -> '-1'), 'id'))::integer`,
+      )
+      expectTypeOf(accessor[-1].id.$integer).toEqualTypeOf<SQL<number | null>>()
+    })
+
+    it('only exposes casts compatible with the leaf type', () => {
+      const accessor = jsonAccess(castObject)
+
+      expectTypeOf(accessor.age).not.toHaveProperty('$boolean')
+      expectTypeOf(accessor.age).not.toHaveProperty('$timestamp')
+      expectTypeOf(accessor.active).not.toHaveProperty('$number')
+      expectTypeOf(accessor.status).not.toHaveProperty('$number')
+      expectTypeOf(accessor.nested).not.toHaveProperty('$text')
+      expectTypeOf(accessor.nested).not.toHaveProperty('$boolean')
+    })
+  })
+
   describe('Table Column Integration', () => {
     it('should work with actual table columns', () => {
       const accessor = jsonAccess(table.jsoncol)
@@ -0,0 +1,82 @@
+import { desc, isNotNull, type SQL, sql } from 'drizzle-orm'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { jsonAgg, jsonObjectAgg } from '../../src/json/operations/aggregate.ts'
+import { dialect, table } from '../utils.ts'
+
+describe('JSON Aggregation', () => {
+  const name = sql<string>`name`
+  const id = sql<number>`id`
+
+  describe('jsonAgg', () => {
+    it('aggregates values', () => {
+      const result = jsonAgg(table.jsoncol)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `coalesce(jsonb_agg("test"."jsoncol"), '[]'::jsonb)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<SQL<Array<{ some: 'json' }>>>()
+    })
+
+    it('aggregates mixed objects', () => {
+      const result = jsonAgg({
+        id,
+        name,
+        data: table.jsoncolNullable,
+        kind: 'item',
+      })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"item"'])
+      expect(query.sql).toBe(
+        `coalesce(jsonb_agg(jsonb_build_object('id', id,'name', name,'data', "test"."jsoncolNullable",'kind', $1::jsonb)), '[]'::jsonb)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<
+        SQL<
+          Array<{
+            id: number
+            name: string
+            data: { some: 'json' } | null
+            kind: string
+          }>
+        >
+      >()
+    })
+
+    it('applies ordering, filter and distinct', () => {
+      const query = dialect.sqlToQuery(
+        jsonAgg(name, {
+          orderBy: [name, desc(id)],
+          filter: isNotNull(id),
+          distinct: true,
+        }),
+      )
+
+      expect(query.sql).toBe(
+        `coalesce(jsonb_agg(distinct name order by name, id desc) filter (where id is not null), '[]'::jsonb)`,
+      )
+    })
+  })
+
+  describe('jsonObjectAgg', () => {
+    it('aggregates key/value pairs', () => {
+      const result = jsonObjectAgg(name, { id })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `coalesce(jsonb_object_agg(name, jsonb_build_object('id', id)) filter (where name is not null), '{}'::jsonb)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<SQL<Record<string, { id: number }>>>()
+    })
+
+    it('combines the filter with the key check', () => {
+      const query = dialect.sqlToQuery(
+        jsonObjectAgg(name, id, { filter: sql`id > 1` }),
+      )
+
+      expect(query.sql).toBe(
+        `coalesce(jsonb_object_agg(name, id) filter (where name is not null and (id > 1)), '{}'::jsonb)`,
+      )
+    })
+  })
+})
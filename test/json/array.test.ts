@@ -1,9 +1,20 @@
 import { type SQL, sql } from 'drizzle-orm'
 import { describe, expect, expectTypeOf, it } from 'vitest'
 import {
+  jsonArrayContains,
   jsonArrayDelete,
+  jsonArrayDistinct,
+  jsonArrayIndexOf,
+  jsonArrayInsert,
+  jsonArrayLength,
+  jsonArrayMap,
+  jsonArrayPrepend,
   jsonArrayPush,
+  jsonArrayRemoveWhere,
   jsonArraySet,
+  jsonArraySlice,
+  jsonArraySortBy,
+  jsonArrayUpsertBy,
 } from '../../src/json/operations/array.ts'
 import { dialect, table } from '../utils.ts'
 
@@ -104,6 +115,63 @@ describe('JSON Array Operations', () => {
     })
   })
 
+  describe('jsonArrayPrepend', () => {
+    it('prepends values to array', () => {
+      const result = jsonArrayPrepend(numberArray, 0, sql<number>`'-1'::jsonb`)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['0'])
+      expect(query.sql).toBe(
+        `jsonb_build_array($1::jsonb, '-1'::jsonb) || json_query(coalesce(${numberArraySql}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb`,
+      )
+    })
+
+    it('has correct return type', () => {
+      expectTypeOf(jsonArrayPrepend(nullableArray, 1)).toEqualTypeOf<
+        SQL<number[]>
+      >()
+      // @ts-expect-error - element type mismatch
+      jsonArrayPrepend(numberArray, 'a')
+    })
+  })
+
+  describe('jsonArrayInsert', () => {
+    it('inserts value before index', () => {
+      const result = jsonArrayInsert(objectArray, 1, { id: 3, name: 'Bob' })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['{"id":3,"name":"Bob"}'])
+      expect(query.sql).toBe(
+        `jsonb_insert(json_query(coalesce(${objectArraySql}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb, '{1}', $1::jsonb, false)`,
+      )
+    })
+
+    it('inserts value after index', () => {
+      const result = jsonArrayInsert(
+        stringArray,
+        -1,
+        sql<string>`'"d"'::jsonb`,
+        {
+          after: true,
+        },
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `jsonb_insert(json_query(coalesce(${stringArraySql}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb, '{-1}', '"d"'::jsonb, true)`,
+      )
+    })
+
+    it('has correct return type', () => {
+      expectTypeOf(jsonArrayInsert(nullableArray, 0, 1)).toEqualTypeOf<
+        SQL<number[]>
+      >()
+      // @ts-expect-error - element type mismatch
+      jsonArrayInsert(objectArray, 0, { id: 'x' })
+    })
+  })
+
   describe('jsonArraySet', () => {
     it('sets value at specific index', () => {
       const result = jsonArraySet(numberArray, 1, 99)
@@ -212,6 +280,238 @@ describe('JSON Array Operations', () => {
     })
   })
 
+  describe('jsonArrayRemoveWhere', () => {
+    const removeWhere = (source: string, condition: string) =>
+      `coalesce((select jsonb_agg(element.value order by element.ordinality) from jsonb_array_elements(json_query(coalesce(${source}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb) with ordinality as element(value, ordinality) where (${condition}) is not true), '[]'::jsonb)`
+
+    it('removes objects containing a partial object', () => {
+      const result = jsonArrayRemoveWhere(objectArray, { id: 2 })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['2'])
+      expect(query.sql).toBe(
+        removeWhere(
+          objectArraySql,
+          `element.value @> jsonb_build_object('id', $1::jsonb)`,
+        ),
+      )
+    })
+
+    it('removes scalars equal to a value', () => {
+      const result = jsonArrayRemoveWhere(stringArray, 'b')
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"b"'])
+      expect(query.sql).toBe(
+        removeWhere(stringArraySql, `element.value = $1::jsonb`),
+      )
+    })
+
+    it('checks SQL values by their type', () => {
+      const result = jsonArrayRemoveWhere(numberArray, sql<number>`'2'::jsonb`)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        removeWhere(
+          numberArraySql,
+          `case jsonb_typeof('2'::jsonb) when 'object' then element.value @> '2'::jsonb else element.value = '2'::jsonb end`,
+        ),
+      )
+    })
+
+    it('has correct return type', () => {
+      expectTypeOf(
+        jsonArrayRemoveWhere(objectArray, { name: 'John' }),
+      ).toEqualTypeOf<SQL<Array<{ id: number; name: string }>>>()
+      expectTypeOf(jsonArrayRemoveWhere(nullableArray, 1)).toEqualTypeOf<
+        SQL<number[]>
+      >()
+      // @ts-expect-error - unknown property
+      jsonArrayRemoveWhere(objectArray, { unknown: 1 })
+      // @ts-expect-error - element type mismatch
+      jsonArrayRemoveWhere(numberArray, 'a')
+    })
+  })
+
+  describe('jsonArrayUpsertBy', () => {
+    const upsert = (replacement: string) =>
+      `(select (select case when bool_or(element.value -> 'id' = input.item -> 'id') then jsonb_agg(case when element.value -> 'id' = input.item -> 'id' then ${replacement} else element.value end order by element.ordinality) else coalesce(jsonb_agg(element.value order by element.ordinality), '[]'::jsonb) || jsonb_build_array(input.item) end from jsonb_array_elements(input.target) with ordinality as element(value, ordinality)) from (select json_query(coalesce(${objectArraySql}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb, jsonb_build_object('id', $1::jsonb,'name', $2::jsonb)) as input(target, item))`
+
+    it('replaces or appends an element by key', () => {
+      const result = jsonArrayUpsertBy(objectArray, 'id', {
+        id: 7,
+        name: 'Bob',
+      })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['7', '"Bob"'])
+      expect(query.sql).toBe(upsert('input.item'))
+    })
+
+    it('merges into the matching element', () => {
+      const result = jsonArrayUpsertBy(
+        objectArray,
+        'id',
+        { id: 7, name: 'Bob' },
+        { merge: true },
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(upsert('element.value || input.item'))
+    })
+
+    it('has correct return type', () => {
+      expectTypeOf(
+        jsonArrayUpsertBy(table.arraycolNullable, 'id', {
+          id: 1,
+          name: sql<string>`'"x"'::jsonb`,
+        }),
+      ).toEqualTypeOf<SQL<Array<{ id: number; name: string }>>>()
+      // @ts-expect-error - key must be a property of the element
+      jsonArrayUpsertBy(objectArray, 'missing', { id: 1, name: 'x' })
+      // @ts-expect-error - item must be a complete element
+      jsonArrayUpsertBy(objectArray, 'id', { id: 1 })
+    })
+  })
+
+  describe('jsonArrayMap', () => {
+    const map = (mapped: string) =>
+      `coalesce((select jsonb_agg(${mapped} order by element.ordinality) from jsonb_array_elements(json_query(coalesce(${objectArraySql}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb) with ordinality as element(value, ordinality)), '[]'::jsonb)`
+
+    it('maps every element', () => {
+      const result = jsonArrayMap(objectArray, (element) =>
+        element.name.$set('Anonymous'),
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"Anonymous"'])
+      expect(query.sql).toBe(
+        map(`jsonb_set(element.value, array['name']::text[], $1::jsonb, true)`),
+      )
+    })
+
+    it('maps matching elements only', () => {
+      const result = jsonArrayMap(
+        objectArray,
+        (_, value) => ({ id: value.id.$number.mapWith(Number), name: 'x' }),
+        { name: 'John' },
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"John"', '"x"'])
+      expect(query.sql).toBe(
+        map(
+          `case when element.value @> jsonb_build_object('name', $1::jsonb) then jsonb_build_object('id', (jsonb_extract_path_text(element.value, 'id'))::numeric,'name', $2::jsonb) else element.value end`,
+        ),
+      )
+    })
+
+    it('maps elements matching a predicate', () => {
+      const result = jsonArrayMap(
+        objectArray,
+        (element) => element.name.$set('x'),
+        (value) => sql`${value.id.$number} > 1`,
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        map(
+          `case when (jsonb_extract_path_text(element.value, 'id'))::numeric > 1 then jsonb_set(element.value, array['name']::text[], $1::jsonb, true) else element.value end`,
+        ),
+      )
+    })
+
+    it('has correct return type', () => {
+      expectTypeOf(
+        jsonArrayMap(table.arraycolNullable, (element) =>
+          element.name.$set('x'),
+        ),
+      ).toEqualTypeOf<SQL<Array<{ id: number; name: string }>>>()
+      // @ts-expect-error - mapper must return an element
+      jsonArrayMap(objectArray, () => 1)
+      // @ts-expect-error - unknown property in match
+      jsonArrayMap(objectArray, (element) => element.name.$set('x'), { x: 1 })
+    })
+  })
+
+  describe('Array Queries', () => {
+    const orEmpty = (source: string) =>
+      `json_query(coalesce(${source}, 'null'::jsonb), 'strict $ ? (@ != null)' default '[]'::jsonb on empty)::jsonb`
+
+    it('gets the array length', () => {
+      const result = jsonArrayLength(nullableArray)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(`jsonb_array_length(${orEmpty(nullableArraySql)})`)
+      expectTypeOf(result).toEqualTypeOf<SQL<number>>()
+    })
+
+    it('checks element containment', () => {
+      const result = jsonArrayContains(objectArray, { id: 1 })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['1'])
+      expect(query.sql).toBe(
+        `${orEmpty(objectArraySql)} @> jsonb_build_array(jsonb_build_object('id', $1::jsonb))`,
+      )
+      expectTypeOf(result).toEqualTypeOf<SQL<boolean>>()
+      // @ts-expect-error - element type mismatch
+      jsonArrayContains(numberArray, 'a')
+    })
+
+    it('finds the index of an element', () => {
+      const result = jsonArrayIndexOf(stringArray, 'b')
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"b"'])
+      expect(query.sql).toBe(
+        `coalesce((select (element.ordinality - 1)::integer from jsonb_array_elements(${orEmpty(stringArraySql)}) with ordinality as element(value, ordinality) where element.value = $1::jsonb order by element.ordinality limit 1), -1)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<SQL<number>>()
+    })
+
+    it('slices with exclusive end and negative indices', () => {
+      const slice = (start: number, end?: number) =>
+        dialect.sqlToQuery(jsonArraySlice(numberArray, start, end)).sql
+
+      expect(slice(1)).toBe(
+        `jsonb_path_query_array(${orEmpty(numberArraySql)}, '$[1 to last]'::jsonpath)`,
+      )
+      expect(slice(0, 2)).toContain(`'$[0 to 1]'::jsonpath`)
+      expect(slice(-2)).toContain(`'$[last - 1 to last]'::jsonpath`)
+      expect(slice(1, -1)).toContain(`'$[1 to last - 1]'::jsonpath`)
+      expect(slice(0, 0)).toContain(`'$[0 to -1]'::jsonpath`)
+      expect(() => slice(0.5)).toThrow(TypeError)
+      expectTypeOf(jsonArraySlice(nullableArray, 0)).toEqualTypeOf<
+        SQL<number[]>
+      >()
+    })
+
+    it('removes duplicates', () => {
+      const result = jsonArrayDistinct(stringArray)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `coalesce((select jsonb_agg(element.value order by element.ordinality) from (select value, min(ordinality) as ordinality from jsonb_array_elements(${orEmpty(stringArraySql)}) with ordinality group by value) as element), '[]'::jsonb)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<SQL<string[]>>()
+    })
+
+    it('sorts by a property', () => {
+      const result = jsonArraySortBy(objectArray, 'name', { desc: true })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `coalesce((select jsonb_agg(element.value order by element.value -> 'name' desc nulls last, element.ordinality) from jsonb_array_elements(${orEmpty(objectArraySql)}) with ordinality as element(value, ordinality)), '[]'::jsonb)`,
+      )
+      expectTypeOf(result).toEqualTypeOf<
+        SQL<Array<{ id: number; name: string }>>
+      >()
+      // @ts-expect-error - key must be a property of the element
+      jsonArraySortBy(objectArray, 'missing')
+    })
+  })
+
   describe('Complex Array Operations', () => {
     it('chains multiple array operations', () => {
       // Push then set then delete
@@ -0,0 +1,125 @@
+import { type SQL, sql } from 'drizzle-orm'
+import {
+  alias,
+  date,
+  integer,
+  numeric,
+  pgTable,
+  QueryBuilder,
+  text,
+} from 'drizzle-orm/pg-core'
+import type { Temporal } from 'temporal-polyfill'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { jsonAgg } from '../../src/json/operations/aggregate.ts'
+import {
+  jsonBuild,
+  jsonFromRow,
+  type SQLJSONDecoded,
+} from '../../src/json/operations/build.ts'
+import { plainDate } from '../../src/temporal/polyfill.ts'
+import { dialect, table } from '../utils.ts'
+
+describe('JSON Build', () => {
+  describe('jsonFromRow', () => {
+    const users = pgTable('users', {
+      id: integer('id').notNull(),
+      name: text('full_name').notNull(),
+      password: text('password'),
+      birthday: plainDate.column('birthday'),
+    })
+
+    it('builds an object from table columns', () => {
+      const result = jsonFromRow(users)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `jsonb_build_object('id', "users"."id",'name', "users"."full_name",'password', "users"."password",'birthday', "users"."birthday")`,
+      )
+      expectTypeOf(result).toEqualTypeOf<
+        SQLJSONDecoded<
+          {
+            id: number
+            name: string
+            password: string | null
+            birthday: Temporal.PlainDate | null
+          },
+          {
+            id: number
+            name: string
+            password: string | null
+            birthday: string | null
+          }
+        >
+      >()
+    })
+
+    it('picks, omits and renames fields', () => {
+      const picked = jsonFromRow(users, {
+        pick: ['id', 'name'],
+        rename: { id: 'userId' },
+      })
+      const omitted = jsonFromRow(alias(users, 'author'), {
+        omit: ['password', 'birthday'],
+      })
+
+      expect(dialect.sqlToQuery(picked).sql).toBe(
+        `jsonb_build_object('userId', "users"."id",'name', "users"."full_name")`,
+      )
+      expect(dialect.sqlToQuery(omitted).sql).toBe(
+        `jsonb_build_object('id', "author"."id",'name', "author"."full_name")`,
+      )
+      expectTypeOf(picked).toEqualTypeOf<
+        SQLJSONDecoded<
+          { userId: number; name: string },
+          { userId: number; name: string }
+        >
+      >()
+      expectTypeOf(omitted).toEqualTypeOf<
+        SQLJSONDecoded<
+          { id: number; name: string },
+          { id: number; name: string }
+        >
+      >()
+      expect(() =>
+        // @ts-expect-error - unknown field
+        jsonFromRow(users, { pick: ['missing'] }),
+      ).toThrow('Unknown field in JSON row: missing')
+    })
+
+    it('builds an object from subquery fields', () => {
+      const subquery = new QueryBuilder()
+        .select({ data: table.jsoncol, count: sql<number>`1`.as('count') })
+        .from(table)
+        .as('sub')
+      const result = jsonFromRow(subquery)
+
+      expect(dialect.sqlToQuery(result).sql).toBe(
+        `jsonb_build_object('data', "sub"."jsoncol",'count', "count")`,
+      )
+      expectTypeOf(result).toEqualTypeOf<
+        SQLJSONDecoded<
+          { data: { some: 'json' }; count: number },
+          { data: { some: 'json' }; count: number }
+        >
+      >()
+    })
+
+    it('types embedded rows with the JSON form of their columns', () => {
+      const events = pgTable('events', {
+        day: plainDate.column('day').notNull(),
+        createdAt: date('created_at', { mode: 'date' }).notNull(),
+        price: numeric('price'),
+      })
+      const row = jsonFromRow(events, { rename: { day: 'd' } })
+
+      expectTypeOf(jsonAgg(row)).toEqualTypeOf<
+        SQL<Array<{ d: string; createdAt: string; price: number | null }>>
+      >()
+      expectTypeOf(jsonBuild({ event: row })).toEqualTypeOf<
+        SQL<{
+          event: { d: string; createdAt: string; price: number | null }
+        }>
+      >()
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { sql } from 'drizzle-orm'
+import { getTableConfig, jsonb, pgTable } from 'drizzle-orm/pg-core'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { jsonGenerated } from '../../src/json/operations/generated.ts'
+import { dialect } from '../utils.ts'
+
+describe('JSON Generated Columns', () => {
+  type Order = {
+    customer: { email: string; name?: string }
+    total: number
+    paid: boolean
+    tags: string[]
+    createdAt: string
+  }
+
+  const data = jsonb('data').$type<Order>().notNull()
+  const orders = pgTable('orders', {
+    data,
+    email: jsonGenerated(data, (data) => data.customer.email.$value),
+    total: jsonGenerated('order_total', data, (data) => data.total.$number),
+    paid: jsonGenerated(data, (data) => data.paid.$boolean),
+    tags: jsonGenerated(data, (data) => data.tags.$path),
+  })
+  const generated = () =>
+    getTableConfig(orders)
+      .columns.filter((column) => column.generated)
+      .map((column) => ({
+        name: column.name,
+        type: column.getSQLType(),
+        as: dialect.sqlToQuery(column.generated!.as as any).sql,
+      }))
+
+  it('generates columns with the accessor expressions', () => {
+    expect(generated()).toEqual([
+      {
+        name: 'email',
+        type: 'text',
+        as: `jsonb_extract_path_text("data", 'customer','email')`,
+      },
+      {
+        name: 'order_total',
+        type: 'numeric',
+        as: `(jsonb_extract_path_text("data", 'total'))::numeric`,
+      },
+      {
+        name: 'paid',
+        type: 'boolean',
+        as: `(jsonb_extract_path_text("data", 'paid'))::boolean`,
+      },
+      {
+        name: 'tags',
+        type: 'jsonb',
+        as: `jsonb_extract_path("data", 'tags')`,
+      },
+    ])
+  })
+
+  it('types the columns from the leaves', () => {
+    expectTypeOf(orders.$inferSelect).toEqualTypeOf<{
+      data: Order
+      email: string | null
+      total: number | null
+      paid: boolean | null
+      tags: string[] | null
+    }>()
+    expectTypeOf(orders.$inferInsert).toEqualTypeOf<{ data: Order }>()
+    expect(orders.total.mapFromDriverValue('1.5')).toBe(1.5)
+    expect(orders.tags.mapFromDriverValue('["a"]')).toEqual(['a'])
+  })
+
+  it('reads the name of key-named columns', () => {
+    const data = jsonb().$type<Order>()
+    const table = pgTable('orders', {
+      payload: data,
+      name: jsonGenerated(data, (data) => data.customer.name.$value),
+    })
+
+    expectTypeOf<typeof table.$inferSelect.name>().toEqualTypeOf<
+      string | null
+    >()
+    expect(
+      dialect.sqlToQuery(getTableConfig(table).columns[1]!.generated!.as as any)
+        .sql,
+    ).toBe(`jsonb_extract_path_text("payload", 'customer','name')`)
+  })
+
+  it('rejects expressions that are not accessor leaves', () => {
+    expect(() =>
+      jsonGenerated(data, (data) => sql<number>`${data.total.$number} + 1`),
+    ).toThrow('jsonGenerated requires an accessor leaf')
+    expect(() =>
+      jsonGenerated(data, (data) => data.createdAt.$timestamp),
+    ).toThrow('jsonGenerated does not support `$timestamp`')
+  })
+})
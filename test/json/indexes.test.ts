@@ -0,0 +1,157 @@
+import { SQL } from 'drizzle-orm'
+import {
+  getTableConfig,
+  type IndexedColumn,
+  jsonb,
+  type PgTable,
+  pgTable,
+} from 'drizzle-orm/pg-core'
+import { describe, expect, it } from 'vitest'
+import {
+  jsonBtreeIndex,
+  jsonGinIndex,
+} from '../../src/json/operations/indexes.ts'
+import { dialect } from '../utils.ts'
+
+describe('JSON Indexes', () => {
+  type Profile = { email: string; age: number; tags: string[] }
+
+  const columns = { profile: jsonb('profile').$type<Profile>() }
+  const indexes = (table: PgTable) =>
+    getTableConfig(table).indexes.map(({ config }) => ({
+      name: config.name,
+      method: config.method,
+      unique: config.unique,
+      columns: (config.columns as Array<IndexedColumn | SQL>).map((column) =>
+        column instanceof SQL
+          ? dialect.sqlToQuery(column).sql
+          : `${column.name} ${column.indexConfig!.opClass}`,
+      ),
+    }))
+
+  describe('jsonGinIndex', () => {
+    it('indexes columns with an operator class', () => {
+      expect(
+        indexes(
+          pgTable('users', columns, ({ profile }) => [
+            jsonGinIndex('profile_ops', profile),
+            jsonGinIndex('profile_path_ops', profile, {
+              opClass: 'jsonb_path_ops',
+            }),
+          ]),
+        ),
+      ).toEqual([
+        {
+          name: 'profile_ops',
+          method: 'gin',
+          unique: false,
+          columns: ['profile jsonb_ops'],
+        },
+        {
+          name: 'profile_path_ops',
+          method: 'gin',
+          unique: false,
+          columns: ['profile jsonb_path_ops'],
+        },
+      ])
+    })
+
+    it('indexes nested values like the accessor extracts them', () => {
+      expect(
+        indexes(
+          pgTable('users', columns, ({ profile }) => [
+            jsonGinIndex<Profile>('tags', profile, {
+              opClass: 'jsonb_path_ops',
+              path: (root) => root.tags,
+            }),
+            jsonGinIndex<Profile>('email', profile, {
+              path: (root) => root.email,
+            }),
+          ]),
+        ),
+      ).toMatchObject([
+        {
+          columns: [
+            `(jsonb_extract_path("users"."profile", 'tags')) jsonb_path_ops`,
+          ],
+        },
+        {
+          columns: [
+            `(jsonb_extract_path("users"."profile", 'email')) jsonb_ops`,
+          ],
+        },
+      ])
+    })
+
+    it('only indexes accessor nodes', () => {
+      expect(() =>
+        indexes(
+          pgTable('users', columns, ({ profile }) => [
+            jsonGinIndex<Profile>('email', profile, {
+              // @ts-expect-error - text leaves have no GIN operator class
+              path: (root) => root.email.$value,
+            }),
+          ]),
+        ),
+      ).toThrow('jsonGinIndex requires an accessor node')
+    })
+  })
+
+  describe('jsonBtreeIndex', () => {
+    it('indexes casted leaves', () => {
+      expect(
+        indexes(
+          pgTable('users', columns, ({ profile }) => [
+            jsonBtreeIndex<Profile>(
+              'age',
+              profile,
+              (root) => root.age.$integer,
+            ),
+            jsonBtreeIndex<Profile>(
+              'email_age',
+              profile,
+              (root) => [root.email.$value, root.age.$number],
+              { unique: true },
+            ),
+          ]),
+        ),
+      ).toEqual([
+        {
+          name: 'age',
+          method: 'btree',
+          unique: false,
+          columns: [
+            `((jsonb_extract_path_text("users"."profile", 'age'))::integer)`,
+          ],
+        },
+        {
+          name: 'email_age',
+          method: 'btree',
+          unique: true,
+          columns: [
+            `(jsonb_extract_path_text("users"."profile", 'email'))`,
+            `((jsonb_extract_path_text("users"."profile", 'age'))::numeric)`,
+          ],
+        },
+      ])
+    })
+
+    it('rejects leaves whose cast is not immutable', () => {
+      expect(() =>
+        indexes(
+          pgTable(
+            'users',
+            { profile: jsonb('profile').$type<{ since: string }>() },
+            ({ profile }) => [
+              jsonBtreeIndex<{ since: string }>(
+                'since',
+                profile,
+                (root) => root.since.$timestamp,
+              ),
+            ],
+          ),
+        ),
+      ).toThrow('jsonBtreeIndex does not support `$timestamp`')
+    })
+  })
+})
@@ -1,14 +1,80 @@
-import { sql } from 'drizzle-orm'
+import { desc, eq, gt, is, isNotNull, SQL, sql } from 'drizzle-orm'
+import {
+  boolean,
+  getTableConfig,
+  type IndexedColumn,
+  integer,
+  jsonb,
+  numeric,
+  pgTable,
+  text,
+} from 'drizzle-orm/pg-core'
 import type { PgliteDatabase } from 'drizzle-orm/pglite'
+import { Temporal } from 'temporal-polyfill'
 import { beforeAll, describe, expect, it } from 'vitest'
 import { jsonAccess } from '../../src/json/operations/access.ts'
+import { jsonAgg, jsonObjectAgg } from '../../src/json/operations/aggregate.ts'
 import {
+  jsonArrayContains,
   jsonArrayDelete,
+  jsonArrayDistinct,
+  jsonArrayIndexOf,
+  jsonArrayInsert,
+  jsonArrayLength,
+  jsonArrayMap,
+  jsonArrayPrepend,
   jsonArrayPush,
+  jsonArrayRemoveWhere,
   jsonArraySet,
+  jsonArraySlice,
+  jsonArraySortBy,
+  jsonArrayUpsertBy,
 } from '../../src/json/operations/array.ts'
-import { jsonMerge } from '../../src/json/operations/merge.ts'
+import { jsonFromRow } from '../../src/json/operations/build.ts'
+import { jsonGenerated } from '../../src/json/operations/generated.ts'
+import {
+  jsonBtreeIndex,
+  jsonGinIndex,
+} from '../../src/json/operations/indexes.ts'
+import {
+  jsonDeepMerge,
+  jsonMerge,
+  jsonMergePatch,
+} from '../../src/json/operations/merge.ts'
+import {
+  jsonPatch,
+  type SQLJSONPatchOperation,
+} from '../../src/json/operations/patch.ts'
+import {
+  jsonPathExists,
+  jsonPathMatch,
+  jsonPathQuery,
+  jsonPathQueryFirst,
+} from '../../src/json/operations/path.ts'
+import {
+  jsonContainedBy,
+  jsonContains,
+  jsonHasAllKeys,
+  jsonHasAnyKeys,
+  jsonHasKey,
+} from '../../src/json/operations/predicate.ts'
+import {
+  jsonArrayElements,
+  jsonEach,
+  jsonToRecord,
+  jsonToRecordset,
+} from '../../src/json/operations/rows.ts'
+import {
+  jsonSchemaConstraints,
+  type StandardSchemaV1,
+  typedJsonb,
+} from '../../src/json/operations/schema.ts'
 import { jsonSet, jsonSetPipe } from '../../src/json/operations/set.ts'
+import {
+  assertJSONTableSupport,
+  jsonTable,
+} from '../../src/json/operations/table.ts'
+import { plainDate, timestampz } from '../../src/temporal/polyfill.ts'
 import { createDatabase, executeQuery } from '../utils.ts'
 
 let db: PgliteDatabase
@@ -22,14 +88,51 @@ describe('JSON Integration Tests', () => {
     const jsonImport = await import('@denny-il/drizzle-pg-utils/json')
     expect(jsonImport).toBeDefined()
     expect(jsonImport.access).toBeDefined()
+    expect(jsonImport.agg).toBeDefined()
+    expect(jsonImport.objectAgg).toBeDefined()
     expect(jsonImport.arrayDelete).toBeDefined()
+    expect(jsonImport.arrayLength).toBeDefined()
+    expect(jsonImport.arrayContains).toBeDefined()
+    expect(jsonImport.arrayIndexOf).toBeDefined()
+    expect(jsonImport.arraySlice).toBeDefined()
+    expect(jsonImport.arrayDistinct).toBeDefined()
+    expect(jsonImport.arraySortBy).toBeDefined()
+    expect(jsonImport.arrayInsert).toBeDefined()
+    expect(jsonImport.arrayMap).toBeDefined()
+    expect(jsonImport.arrayPrepend).toBeDefined()
+    expect(jsonImport.arrayRemoveWhere).toBeDefined()
     expect(jsonImport.arrayPush).toBeDefined()
     expect(jsonImport.arraySet).toBeDefined()
+    expect(jsonImport.arrayUpsertBy).toBeDefined()
     expect(jsonImport.merge).toBeDefined()
+    expect(jsonImport.deepMerge).toBeDefined()
+    expect(jsonImport.mergePatch).toBeDefined()
+    expect(jsonImport.arrayElements).toBeDefined()
+    expect(jsonImport.each).toBeDefined()
+    expect(jsonImport.toRecord).toBeDefined()
+    expect(jsonImport.toRecordset).toBeDefined()
+    expect(jsonImport.table).toBeDefined()
+    expect(jsonImport.assertTableSupport).toBeDefined()
+    expect(jsonImport.typed).toBeDefined()
+    expect(jsonImport.schemaConstraints).toBeDefined()
+    expect(jsonImport.generated).toBeDefined()
+    expect(jsonImport.ginIndex).toBeDefined()
+    expect(jsonImport.btreeIndex).toBeDefined()
     expect(jsonImport.set).toBeDefined()
     expect(jsonImport.setPipe).toBeDefined()
     expect(jsonImport.build).toBeDefined()
+    expect(jsonImport.fromRow).toBeDefined()
     expect(jsonImport.coalesce).toBeDefined()
+    expect(jsonImport.contains).toBeDefined()
+    expect(jsonImport.containedBy).toBeDefined()
+    expect(jsonImport.hasKey).toBeDefined()
+    expect(jsonImport.hasAnyKeys).toBeDefined()
+    expect(jsonImport.hasAllKeys).toBeDefined()
+    expect(jsonImport.patch).toBeDefined()
+    expect(jsonImport.pathQuery).toBeDefined()
+    expect(jsonImport.pathQueryFirst).toBeDefined()
+    expect(jsonImport.pathExists).toBeDefined()
+    expect(jsonImport.pathMatch).toBeDefined()
 
     const jsonImportSet = await import('@denny-il/drizzle-pg-utils/json/set')
     expect(jsonImportSet.jsonSet).toBeDefined()
@@ -58,6 +161,8 @@ describe('JSON Integration Tests', () => {
     )
     expect(jsonImportMerge.jsonMerge).toBeDefined()
     expect(jsonImportMerge.jsonMerge).toEqual(jsonImport.merge)
+    expect(jsonImportMerge.jsonDeepMerge).toEqual(jsonImport.deepMerge)
+    expect(jsonImportMerge.jsonMergePatch).toEqual(jsonImport.mergePatch)
 
     const jsonImportBuild = await import(
       '@denny-il/drizzle-pg-utils/json/build'
@@ -70,6 +175,48 @@ describe('JSON Integration Tests', () => {
     )
     expect(jsonImportCoalesce.jsonCoalesce).toBeDefined()
     expect(jsonImportCoalesce.jsonCoalesce).toEqual(jsonImport.coalesce)
+
+    const jsonImportPredicate = await import(
+      '@denny-il/drizzle-pg-utils/json/predicate'
+    )
+    expect(jsonImportPredicate.jsonContains).toEqual(jsonImport.contains)
+    expect(jsonImportPredicate.jsonContainedBy).toEqual(jsonImport.containedBy)
+    expect(jsonImportPredicate.jsonHasKey).toEqual(jsonImport.hasKey)
+    expect(jsonImportPredicate.jsonHasAnyKeys).toEqual(jsonImport.hasAnyKeys)
+    expect(jsonImportPredicate.jsonHasAllKeys).toEqual(jsonImport.hasAllKeys)
+
+    const jsonImportPath = await import('@denny-il/drizzle-pg-utils/json/path')
+    expect(jsonImportPath.jsonPathQuery).toEqual(jsonImport.pathQuery)
+    expect(jsonImportPath.jsonPathQueryFirst).toEqual(jsonImport.pathQueryFirst)
+    expect(jsonImportPath.jsonPathExists).toEqual(jsonImport.pathExists)
+    expect(jsonImportPath.jsonPathMatch).toEqual(jsonImport.pathMatch)
+
+    const jsonImportTable = await import(
+      '@denny-il/drizzle-pg-utils/json/table'
+    )
+    expect(jsonImportTable.jsonTable).toEqual(jsonImport.table)
+    expect(jsonImportTable.assertJSONTableSupport).toEqual(
+      jsonImport.assertTableSupport,
+    )
+
+    const jsonImportSchema = await import(
+      '@denny-il/drizzle-pg-utils/json/schema'
+    )
+    expect(jsonImportSchema.typedJsonb).toEqual(jsonImport.typed)
+    expect(jsonImportSchema.jsonSchemaConstraints).toEqual(
+      jsonImport.schemaConstraints,
+    )
+
+    const jsonImportIndexes = await import(
+      '@denny-il/drizzle-pg-utils/json/indexes'
+    )
+    expect(jsonImportIndexes.jsonGinIndex).toEqual(jsonImport.ginIndex)
+    expect(jsonImportIndexes.jsonBtreeIndex).toEqual(jsonImport.btreeIndex)
+
+    const jsonImportGenerated = await import(
+      '@denny-il/drizzle-pg-utils/json/generated'
+    )
+    expect(jsonImportGenerated.jsonGenerated).toEqual(jsonImport.generated)
   })
 
   describe('JSON Accessor Runtime Behavior', () => {
@@ -150,6 +297,84 @@ describe('JSON Integration Tests', () => {
       expect(outOfBoundsResult).toBeNull()
     })
 
+    it('should access array elements by negative index', async () => {
+      const value = sql<{
+        items: Array<{ id: number; name: string }>
+      }>`'{"items": [{"id": 1, "name": "first"}, {"id": 2, "name": "last"}]}'::jsonb`
+
+      const accessor = jsonAccess(value)
+      const results = await Promise.all([
+        executeQuery(db, accessor.items[-1].name.$value),
+        executeQuery(db, accessor.items[-2].id.$path),
+        executeQuery(db, accessor.items[1].id.$value),
+        executeQuery(db, accessor.items[-3].$path),
+      ])
+
+      expect(results).toEqual(['last', 1, '2', null])
+    })
+
+    it('should access integer-like object keys', async () => {
+      const value = sql<{
+        byYear: Record<string, { n: number }>
+        '-1': string
+      }>`'{"byYear": {"2024": {"n": 7}}, "-1": "minus one"}'::jsonb`
+
+      const accessor = jsonAccess(value)
+      const results = await Promise.all([
+        executeQuery(db, accessor.byYear['2024'].n.$value),
+        executeQuery(db, accessor['-1'].$value),
+        executeQuery(
+          db,
+          jsonPathQueryFirst(value, (root) => root.byYear['2024'].n),
+        ),
+      ])
+
+      expect(results).toEqual(['7', 'minus one', 7])
+    })
+
+    it('should cast scalar leaves to typed SQL values', async () => {
+      const value = sql<{
+        age: number
+        count: number
+        active: boolean
+        createdAt: string
+      }>`'{"age": 42.5, "count": 43, "active": true, "createdAt": "2024-01-01T12:00:00Z"}'::jsonb`
+      const accessor = jsonAccess(value)
+
+      const results = await Promise.all([
+        executeQuery(db, sql`${accessor.age.$number} > 18`),
+        executeQuery(db, sql`${accessor.age.$number} > 100`),
+        executeQuery(db, accessor.active.$boolean),
+        executeQuery(db, sql`${accessor.count.$integer} = 43`),
+        executeQuery(
+          db,
+          sql`${accessor.createdAt.$timestamp} = '2024-01-01 12:00:00+00'::timestamptz`,
+        ),
+      ])
+
+      expect(results).toEqual([true, false, true, true, true])
+    })
+
+    it('should map cast values when selected', async () => {
+      const value = sql<{
+        price: number
+        createdAt: string
+      }>`'{"price": 9.99, "createdAt": "2024-01-01T12:00:00Z"}'::jsonb`
+      const accessor = jsonAccess(value)
+
+      const [row] = await db
+        .select({
+          price: accessor.price.$number,
+          createdAt: accessor.createdAt.$timestamp,
+        })
+        .from(sql`(select 1) as t`)
+
+      expect(row).toEqual({
+        price: 9.99,
+        createdAt: new Date('2024-01-01T12:00:00Z'),
+      })
+    })
+
     it('should handle complex nested objects with mixed types', async () => {
       const complexValue = sql<{
         user: {
@@ -230,6 +455,297 @@ describe('JSON Integration Tests', () => {
     })
   })
 
+  describe('JSON Set $delete Runtime Behavior', () => {
+    it('should delete optional properties and array elements', async () => {
+      const baseValue = sql<{
+        name: string
+        nickname?: string
+        tags: string[]
+        profile: { bio?: string; avatar: string }
+      }>`'{"name": "John", "nickname": "JJ", "tags": ["a", "b", "c"], "profile": {"bio": "hi", "avatar": "x"}}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSetPipe(
+          baseValue,
+          (setter) => setter.nickname.$delete(),
+          (setter) => setter.tags[-1].$delete(),
+          (setter) => setter.tags[0].$delete(),
+          (setter) => setter.profile.bio.$delete(),
+        ),
+      )
+
+      expect(result).toEqual({
+        name: 'John',
+        tags: ['b'],
+        profile: { avatar: 'x' },
+      })
+    })
+
+    it('should leave the value unchanged when the path is missing', async () => {
+      const baseValue = sql<{
+        profile?: { bio?: string }
+      }>`'{"other": 1}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSet(baseValue).profile.bio.$delete(),
+      )
+
+      expect(result).toEqual({ other: 1 })
+    })
+  })
+
+  describe('JSON Set $update Runtime Behavior', () => {
+    it('should update values from their current value', async () => {
+      const baseValue = sql<{
+        stats: { views: number; likes?: number }
+        title: string
+      }>`'{"stats": {"views": 41}, "title": "Post"}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSetPipe(
+          baseValue,
+          (setter) => setter.stats.views.$update((v) => sql`${v}::int + 1`),
+          (setter) => setter.stats.views.$update((v) => sql`${v}::int * 2`),
+          (setter) =>
+            setter.title.$update((_, title) => sql`upper(${title.$value})`),
+          (setter) =>
+            setter.stats.likes.$update((likes) => sql`${likes}::int + 1`),
+        ),
+      )
+
+      expect(result).toEqual({
+        stats: { views: 84, likes: null },
+        title: 'POST',
+      })
+    })
+
+    it('should wrap existing values', async () => {
+      type Tags = string[] | { items: Tags }
+      const baseValue = sql<{ tags: Tags }>`'{"tags": ["a"]}'::jsonb`
+      const setter = jsonSet(baseValue)
+
+      const result = await executeQuery(
+        db,
+        setter.tags.$update((tags) => ({ items: tags })),
+      )
+
+      expect(result).toEqual({ tags: { items: ['a'] } })
+    })
+
+    it('should update values to cast parameters', async () => {
+      const baseValue = sql<{
+        title: string
+        views: number
+        draft: boolean
+      }>`'{"title": "Post", "views": 1, "draft": true}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSetPipe(
+          baseValue,
+          (setter) => setter.title.$update(() => sql`${'abc'}::text`),
+          (setter) => setter.views.$update(() => sql`${5}::int`),
+          (setter) => setter.draft.$update(() => false),
+        ),
+      )
+
+      expect(result).toEqual({ title: 'abc', views: 5, draft: false })
+    })
+  })
+
+  describe('JSON Set Mutators Runtime Behavior', () => {
+    type Counters = {
+      views: number
+      likes?: number | null
+      active: boolean
+      muted?: boolean
+      name: string
+      suffix?: string
+      tags: string[]
+      history?: number[]
+    }
+
+    it('should mutate leaves from their current value', async () => {
+      const baseValue = sql<Counters>`'{"views": 1.5, "likes": null, "active": true, "name": "Jane", "tags": ["a"]}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSetPipe(
+          baseValue,
+          (setter) => setter.views.$increment(),
+          (setter) => setter.views.$increment(0.25),
+          (setter) => setter.likes.$decrement(2),
+          (setter) => setter.active.$toggle(),
+          (setter) => setter.muted.$toggle(),
+          (setter) => setter.name.$concat(' Doe'),
+          (setter) => setter.suffix.$concat('Jr.'),
+          (setter) => setter.tags.$push('b', 'c'),
+          (setter) => setter.history.$push(1),
+        ),
+      )
+
+      expect(result).toEqual({
+        views: 2.75,
+        likes: -2,
+        active: false,
+        muted: true,
+        name: 'Jane Doe',
+        suffix: 'Jr.',
+        tags: ['a', 'b', 'c'],
+        history: [1],
+      })
+    })
+
+    it('should update columns', async () => {
+      const counters = pgTable('json_set_counters', {
+        id: integer('id').primaryKey(),
+        data: jsonb('data').$type<Counters>().notNull(),
+      })
+      await db.execute(
+        sql`CREATE TABLE json_set_counters (id INTEGER PRIMARY KEY, data JSONB NOT NULL)`,
+      )
+      await db.insert(counters).values({
+        id: 1,
+        data: { views: 0, active: false, name: 'Jane', tags: [] },
+      })
+
+      for (let i = 0; i < 3; i++)
+        await db
+          .update(counters)
+          .set({ data: jsonSet(counters.data).views.$increment() })
+          .where(eq(counters.id, 1))
+      const [row] = await db.select().from(counters)
+
+      expect(row!.data.views).toBe(3)
+    })
+  })
+
+  describe('JSON Set $merge Runtime Behavior', () => {
+    type Settings = {
+      theme: string
+      notifications?: { email: boolean; push: boolean; digest?: string }
+    }
+
+    it('should shallow merge at a path', async () => {
+      const baseValue = sql<{
+        settings: Settings
+      }>`'{"settings": {"theme": "dark", "notifications": {"email": true, "push": true}}}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSet(baseValue).settings.notifications.$merge({ push: false }),
+      )
+
+      expect(result).toEqual({
+        settings: {
+          theme: 'dark',
+          notifications: { email: true, push: false },
+        },
+      })
+    })
+
+    it('should deep merge at a path', async () => {
+      const baseValue = sql<{
+        settings: Settings
+      }>`'{"settings": {"theme": "dark", "notifications": {"email": true, "push": true}}}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSet(baseValue).settings.$merge(
+          { notifications: { digest: 'weekly' } },
+          { deep: true },
+        ),
+      )
+
+      expect(result).toEqual({
+        settings: {
+          theme: 'dark',
+          notifications: { email: true, push: true, digest: 'weekly' },
+        },
+      })
+    })
+
+    it('should treat SQL NULL and JSON null as empty objects', async () => {
+      const jsonNull = sql<{
+        settings: Settings | null
+      }>`'{"settings": null}'::jsonb`
+      const missing = sql<{ settings?: Settings }>`'{}'::jsonb`
+      const sqlNull = sql<Settings>`NULL::jsonb`
+
+      const results = await Promise.all([
+        executeQuery(
+          db,
+          jsonSet(jsonNull).settings.$merge(
+            { notifications: { email: false } },
+            { deep: true },
+          ),
+        ),
+        executeQuery(db, jsonSet(missing).settings.$merge({ theme: 'light' })),
+        executeQuery(db, jsonSet(sqlNull).$merge({ theme: 'light' })),
+      ])
+
+      expect(results).toEqual([
+        { settings: { notifications: { email: false } } },
+        { settings: { theme: 'light' } },
+        { theme: 'light' },
+      ])
+    })
+
+    it('should replace scalars and arrays with the merged object', async () => {
+      const baseValue = sql<{
+        settings: Settings
+      }>`'{"settings": 5}'::jsonb`
+      const arrayValue = sql<Settings>`'[1, 2]'::jsonb`
+
+      const results = await Promise.all([
+        executeQuery(
+          db,
+          jsonSet(baseValue).settings.$merge({ theme: 'light' }),
+        ),
+        executeQuery(
+          db,
+          jsonSet(baseValue).$merge(
+            { settings: { notifications: { email: true } } },
+            { deep: true },
+          ),
+        ),
+        executeQuery(db, jsonSet(arrayValue).$merge({ theme: 'light' })),
+      ])
+
+      expect(results).toEqual([
+        { settings: { theme: 'light' } },
+        { settings: { notifications: { email: true } } },
+        { theme: 'light' },
+      ])
+    })
+
+    it('should compose with jsonSetPipe', async () => {
+      const baseValue = sql<{
+        settings: Settings
+      }>`'{"settings": {"theme": "dark"}}'::jsonb`
+
+      const result = await executeQuery(
+        db,
+        jsonSetPipe(
+          baseValue,
+          (setter) => setter.settings.$merge({ theme: 'light' }),
+          (setter) =>
+            setter.settings.$merge(
+              { notifications: { email: true } },
+              { deep: true },
+            ),
+        ),
+      )
+
+      expect(result).toEqual({
+        settings: { theme: 'light', notifications: { email: true } },
+      })
+    })
+  })
+
   describe('JSON Set $default Runtime Behavior', () => {
     it('should set default value when property is missing', async () => {
       const baseValue = sql<{
@@ -727,54 +1243,564 @@ describe('JSON Integration Tests', () => {
     })
   })
 
-  describe('JSON Array Operations Runtime Behavior', () => {
-    it('should push elements to arrays', async () => {
-      const baseArray = sql<string[]>`'["a", "b"]'::jsonb`
-      const pushedArray = jsonArrayPush(baseArray, 'c')
-      const result = await executeQuery(db, pushedArray)
-
-      expect(result).toEqual(['a', 'b', 'c'])
+  describe('JSON Merge Patch Runtime Behavior', () => {
+    it('should follow the RFC 7396 examples', async () => {
+      const apply = (target: string, patch: string) =>
+        executeQuery(
+          db,
+          jsonMergePatch(sql<any>`${target}::jsonb`, sql<any>`${patch}::jsonb`),
+        )
+      const cases: Array<[string, string, unknown]> = [
+        ['{"a":"b"}', '{"a":"c"}', { a: 'c' }],
+        ['{"a":"b"}', '{"b":"c"}', { a: 'b', b: 'c' }],
+        ['{"a":"b"}', '{"a":null}', {}],
+        ['{"a":"b","b":"c"}', '{"a":null}', { b: 'c' }],
+        ['{"a":["b"]}', '{"a":"c"}', { a: 'c' }],
+        ['{"a":"c"}', '{"a":["b"]}', { a: ['b'] }],
+        ['{"a":{"b":"c"}}', '{"a":{"b":"d","c":null}}', { a: { b: 'd' } }],
+        ['{"a":[{"b":"c"}]}', '{"a":[1]}', { a: [1] }],
+        ['["a","b"]', '["c","d"]', ['c', 'd']],
+        ['{"a":"b"}', '["c"]', ['c']],
+        ['{"a":"foo"}', 'null', null],
+        ['{"a":"foo"}', '"bar"', 'bar'],
+        ['{"e":null}', '{"a":1}', { e: null, a: 1 }],
+        ['[1,2]', '{"a":"b","c":null}', { a: 'b' }],
+        ['{}', '{"a":{"bb":{"ccc":null}}}', { a: { bb: {} } }],
+      ]
+
+      for (const [target, patch, expected] of cases) {
+        expect(await apply(target, patch)).toEqual(expected)
+      }
     })
 
-    it('should push multiple elements', async () => {
-      const baseArray = sql<string[]>`'["a"]'::jsonb`
-      const pushed1 = jsonArrayPush(baseArray, 'b')
-      const pushed2 = jsonArrayPush(pushed1, 'c')
-      const result = await executeQuery(db, pushed2)
+    it('should apply a JS patch document', async () => {
+      const profile = sql<{
+        name: string
+        nickname?: string | null
+        address: { city: string; zip?: string }
+      }>`'{"name": "John", "nickname": "JJ", "address": {"city": "Berlin"}}'::jsonb`
+      const result = await executeQuery(
+        db,
+        jsonMergePatch(profile, {
+          name: 'Jane',
+          nickname: null,
+          address: { zip: '10115' },
+        }),
+      )
 
-      expect(result).toEqual(['a', 'b', 'c'])
+      expect(result).toEqual({
+        name: 'Jane',
+        address: { city: 'Berlin', zip: '10115' },
+      })
     })
 
-    it('should set array elements by index', async () => {
-      const baseArray = sql<string[]>`'["a", "b", "c"]'::jsonb`
-      const updatedArray = jsonArraySet(baseArray, 1, 'updated')
-      const result = await executeQuery(db, updatedArray)
+    it('should patch SQL NULL as an empty object', async () => {
+      const sqlNull = sql<{ a?: number } | null>`NULL::jsonb`
+      const [patched, unchanged] = await Promise.all([
+        executeQuery(db, jsonMergePatch(sqlNull, { a: 1 })),
+        executeQuery(
+          db,
+          jsonMergePatch(
+            sql<{ a?: number }>`'{"a": 1}'::jsonb`,
+            sql<{ a?: number }>`NULL::jsonb`,
+          ),
+        ),
+      ])
 
-      expect(result).toEqual(['a', 'updated', 'c'])
+      expect(patched).toEqual({ a: 1 })
+      expect(unchanged).toEqual({ a: 1 })
     })
+  })
 
-    it('should delete array elements by index', async () => {
-      const baseArray = sql<string[]>`'["a", "b", "c", "d"]'::jsonb`
-      const deletedArray = jsonArrayDelete(baseArray, 2)
-      const result = await executeQuery(db, deletedArray)
+  describe('JSON Patch Runtime Behavior', () => {
+    const apply = (
+      target: string,
+      operations: SQLJSONPatchOperation[],
+      onFailure?: 'raise' | 'null',
+    ) =>
+      executeQuery(
+        db,
+        jsonPatch(sql<any>`${target}::jsonb`, operations, { onFailure }),
+      )
 
-      expect(result).toEqual(['a', 'b', 'd'])
+    it('should follow the RFC 6902 examples', async () => {
+      const cases: Array<[string, SQLJSONPatchOperation[], unknown]> = [
+        [
+          '{"foo": "bar"}',
+          [{ op: 'add', path: '/baz', value: 'qux' }],
+          { baz: 'qux', foo: 'bar' },
+        ],
+        [
+          '{"foo": ["bar", "baz"]}',
+          [{ op: 'add', path: '/foo/1', value: 'qux' }],
+          { foo: ['bar', 'qux', 'baz'] },
+        ],
+        [
+          '{"baz": "qux", "foo": "bar"}',
+          [{ op: 'remove', path: '/baz' }],
+          { foo: 'bar' },
+        ],
+        [
+          '{"foo": ["bar", "qux", "baz"]}',
+          [{ op: 'remove', path: '/foo/1' }],
+          { foo: ['bar', 'baz'] },
+        ],
+        [
+          '{"baz": "qux", "foo": "bar"}',
+          [{ op: 'replace', path: '/baz', value: 'boo' }],
+          { baz: 'boo', foo: 'bar' },
+        ],
+        [
+          '{"foo": {"bar": "baz", "waldo": "fred"}, "qux": {"corge": "grault"}}',
+          [{ op: 'move', from: '/foo/waldo', path: '/qux/thud' }],
+          { foo: { bar: 'baz' }, qux: { corge: 'grault', thud: 'fred' } },
+        ],
+        [
+          '{"foo": ["all", "grass", "cows", "eat"]}',
+          [{ op: 'move', from: '/foo/1', path: '/foo/3' }],
+          { foo: ['all', 'cows', 'eat', 'grass'] },
+        ],
+        [
+          '{"baz": "qux", "foo": ["a", 2, "c"]}',
+          [
+            { op: 'test', path: '/baz', value: 'qux' },
+            { op: 'test', path: '/foo/1', value: 2 },
+          ],
+          { baz: 'qux', foo: ['a', 2, 'c'] },
+        ],
+        [
+          '{"foo": "bar"}',
+          [{ op: 'add', path: '/child', value: { grandchild: {} } }],
+          { foo: 'bar', child: { grandchild: {} } },
+        ],
+        [
+          '{"/": 9, "~1": 10}',
+          [{ op: 'test', path: '/~01', value: 10 }],
+          { '/': 9, '~1': 10 },
+        ],
+        [
+          '{"foo": ["bar"]}',
+          [{ op: 'add', path: '/foo/-', value: ['abc', 'def'] }],
+          { foo: ['bar', ['abc', 'def']] },
+        ],
+        ['{"foo": "bar"}', [{ op: 'copy', from: '/foo', path: '' }], 'bar'],
+      ]
+
+      for (const [target, operations, expected] of cases) {
+        expect(await apply(target, operations)).toEqual(expected)
+      }
     })
 
-    it('should handle out-of-bounds array operations gracefully', async () => {
-      const baseArray = sql<string[]>`'["a", "b"]'::jsonb`
+    it('should fail on test mismatches and missing locations', async () => {
+      await expect(
+        apply('{"baz": "qux"}', [{ op: 'test', path: '/baz', value: 'bar' }]),
+      ).rejects.toThrow('JSON Patch test failed at /baz')
+      await expect(
+        apply('{"foo": "bar"}', [{ op: 'add', path: '/baz/bat', value: 1 }]),
+      ).rejects.toThrow('JSON Patch add failed at /baz/bat')
+      await expect(
+        apply('{"foo": "bar"}', [{ op: 'remove', path: '/baz' }]),
+      ).rejects.toThrow('JSON Patch remove failed at /baz')
+      await expect(
+        apply('{"foo": "bar"}', [{ op: 'move', from: '/baz', path: '/qux' }]),
+      ).rejects.toThrow('JSON Patch move failed at /baz')
+    })
 
-      // Set out of bounds - PostgreSQL jsonb_set doesn't extend with nulls like I expected
-      const extendedArray = jsonArraySet(baseArray, 5, 'far')
-      const extendedResult = await executeQuery(db, extendedArray)
+    it('should only address arrays with RFC 6901 indexes', async () => {
+      const target = '{"foo": ["bar"], "01": 1}'
+
+      expect(
+        await apply(target, [
+          { op: 'add', path: '/foo/1', value: 'baz' },
+          { op: 'remove', path: '/01' },
+        ]),
+      ).toEqual({ foo: ['bar', 'baz'] })
+      for (const operation of [
+        { op: 'add', path: '/foo/2', value: 'baz' },
+        { op: 'add', path: '/foo/-1', value: 'baz' },
+        { op: 'remove', path: '/foo/-1' },
+        { op: 'replace', path: '/foo/00', value: 'baz' },
+        { op: 'test', path: '/foo/-', value: 'bar' },
+        { op: 'copy', from: '/foo/+0', path: '/qux' },
+      ] as SQLJSONPatchOperation[]) {
+        expect(await apply(target, [operation], 'null')).toBeNull()
+      }
+      await expect(
+        apply(target, [{ op: 'remove', path: '/foo/-1' }]),
+      ).rejects.toMatchObject({
+        cause: {
+          code: '22P02',
+          message:
+            'invalid input syntax for type integer: "JSON Patch remove failed at /foo/-1"',
+        },
+      })
+    })
 
-      // Delete out of bounds (should be no-op)
-      const deleteOutOfBounds = jsonArrayDelete(baseArray, 10)
-      const deleteResult = await executeQuery(db, deleteOutOfBounds)
+    it('should return SQL NULL on failure when requested', async () => {
+      const operations: SQLJSONPatchOperation[] = [
+        { op: 'test', path: '/version', value: 1 },
+        { op: 'replace', path: '', value: { version: 2 } },
+      ]
+      const [matched, mismatched] = await Promise.all([
+        apply('{"version": 1}', operations, 'null'),
+        apply('{"version": 3}', operations, 'null'),
+      ])
 
-      // PostgreSQL behavior: setting out of bounds just appends at the end
-      expect(extendedResult).toEqual(['a', 'b', 'far'])
-      expect(deleteResult).toEqual(['a', 'b'])
+      expect(matched).toEqual({ version: 2 })
+      expect(mismatched).toBeNull()
+    })
+  })
+
+  describe('JSON Deep Merge Runtime Behavior', () => {
+    const base = sql<{
+      user: { name: string; tags: string[]; address: { city: string } }
+      count: number
+    }>`'{"user": {"name": "John", "tags": ["a", "b"], "address": {"city": "Berlin"}}, "count": 1}'::jsonb`
+    const patch = sql<{
+      user: { tags: string[]; address: { zip: string } }
+      count: null
+    }>`'{"user": {"tags": ["b", "c", "c"], "address": {"zip": "10115"}}, "count": null}'::jsonb`
+
+    it('should merge nested objects and replace arrays', async () => {
+      const result = await executeQuery(db, jsonDeepMerge(base, patch))
+
+      expect(result).toEqual({
+        user: {
+          name: 'John',
+          tags: ['b', 'c', 'c'],
+          address: { city: 'Berlin', zip: '10115' },
+        },
+        count: null,
+      })
+    })
+
+    it('should combine arrays with the given strategy', async () => {
+      const [concat, union] = await Promise.all([
+        executeQuery(db, jsonDeepMerge(base, patch, { arrays: 'concat' })),
+        executeQuery(db, jsonDeepMerge(base, patch, { arrays: 'union' })),
+      ])
+
+      expect(concat.user.tags).toEqual(['a', 'b', 'b', 'c', 'c'])
+      expect(union.user.tags).toEqual(['a', 'b', 'c'])
+      expect(
+        await executeQuery(
+          db,
+          jsonDeepMerge(
+            sql<Array<{ id: number }>>`'[{"id": 1}]'::jsonb`,
+            sql<Array<{ id: number }>>`'[{"id": 1}, {"id": 2}]'::jsonb`,
+            { arrays: 'union' },
+          ),
+        ),
+      ).toEqual([{ id: 1 }, { id: 2 }])
+    })
+
+    it('should replace values of a different type', async () => {
+      const result = await executeQuery(
+        db,
+        jsonDeepMerge(
+          sql<{
+            a: number
+            b: { c: number }
+          }>`'{"a": 1, "b": {"c": 1}}'::jsonb`,
+          sql<{
+            a: { x: number }
+            b: number[]
+          }>`'{"a": {"x": 1}, "b": [1]}'::jsonb`,
+        ),
+      )
+
+      expect(result).toEqual({ a: { x: 1 }, b: [1] })
+    })
+
+    it('should resolve SQL NULL to the other side', async () => {
+      const sqlNull = sql<{ a: number } | null>`NULL::jsonb`
+      const value = sql<{ a: number }>`'{"a": 1}'::jsonb`
+      const [left, right, empty] = await Promise.all([
+        executeQuery(db, jsonDeepMerge(sqlNull, value)),
+        executeQuery(db, jsonDeepMerge(value, sqlNull)),
+        executeQuery(db, jsonDeepMerge(value, sql<{}>`'{}'::jsonb`)),
+      ])
+
+      expect(left).toEqual({ a: 1 })
+      expect(right).toEqual({ a: 1 })
+      expect(empty).toEqual({ a: 1 })
+    })
+  })
+
+  describe('JSON Array Operations Runtime Behavior', () => {
+    it('should push elements to arrays', async () => {
+      const baseArray = sql<string[]>`'["a", "b"]'::jsonb`
+      const pushedArray = jsonArrayPush(baseArray, 'c')
+      const result = await executeQuery(db, pushedArray)
+
+      expect(result).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should push multiple elements', async () => {
+      const baseArray = sql<string[]>`'["a"]'::jsonb`
+      const pushed1 = jsonArrayPush(baseArray, 'b')
+      const pushed2 = jsonArrayPush(pushed1, 'c')
+      const result = await executeQuery(db, pushed2)
+
+      expect(result).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should set array elements by index', async () => {
+      const baseArray = sql<string[]>`'["a", "b", "c"]'::jsonb`
+      const updatedArray = jsonArraySet(baseArray, 1, 'updated')
+      const result = await executeQuery(db, updatedArray)
+
+      expect(result).toEqual(['a', 'updated', 'c'])
+    })
+
+    it('should prepend elements to arrays', async () => {
+      const baseArray = sql<string[]>`'["c"]'::jsonb`
+      const result = await executeQuery(
+        db,
+        jsonArrayPrepend(baseArray, 'a', 'b'),
+      )
+
+      expect(result).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should insert array elements before or after an index', async () => {
+      const baseArray = sql<string[]>`'["a", "c"]'::jsonb`
+      const [before, after, last, outOfBounds] = await Promise.all([
+        executeQuery(db, jsonArrayInsert(baseArray, 1, 'b')),
+        executeQuery(db, jsonArrayInsert(baseArray, 0, 'b', { after: true })),
+        executeQuery(db, jsonArrayInsert(baseArray, -1, 'd', { after: true })),
+        executeQuery(db, jsonArrayInsert(baseArray, 10, 'z')),
+      ])
+
+      expect(before).toEqual(['a', 'b', 'c'])
+      expect(after).toEqual(['a', 'b', 'c'])
+      expect(last).toEqual(['a', 'c', 'd'])
+      expect(outOfBounds).toEqual(['a', 'c', 'z'])
+    })
+
+    it('should insert and prepend into null arrays', async () => {
+      const nullArray = sql<string[] | null>`NULL::jsonb`
+      const [inserted, prepended] = await Promise.all([
+        executeQuery(db, jsonArrayInsert(nullArray, 0, 'a')),
+        executeQuery(db, jsonArrayPrepend(nullArray, 'a')),
+      ])
+
+      expect(inserted).toEqual(['a'])
+      expect(prepended).toEqual(['a'])
+    })
+
+    it('should delete array elements by index', async () => {
+      const baseArray = sql<string[]>`'["a", "b", "c", "d"]'::jsonb`
+      const deletedArray = jsonArrayDelete(baseArray, 2)
+      const result = await executeQuery(db, deletedArray)
+
+      expect(result).toEqual(['a', 'b', 'd'])
+    })
+
+    it('should remove elements by partial object or value', async () => {
+      const items = sql<
+        Array<{ id: number; tags: string[] }>
+      >`'[{"id": 1, "tags": ["a"]}, {"id": 42, "tags": ["b"]}, {"id": 3, "tags": ["a", "b"]}]'::jsonb`
+      const [byId, byTag, byValue, all] = await Promise.all([
+        executeQuery(db, jsonArrayRemoveWhere(items, { id: 42 })),
+        executeQuery(db, jsonArrayRemoveWhere(items, { tags: ['a'] })),
+        executeQuery(
+          db,
+          jsonArrayRemoveWhere(
+            sql<Array<number | null>>`'[1, null, 2, 1]'::jsonb`,
+            1,
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonArrayRemoveWhere(sql<string[]>`'["a", "a"]'::jsonb`, 'a'),
+        ),
+      ])
+
+      expect(byId).toEqual([
+        { id: 1, tags: ['a'] },
+        { id: 3, tags: ['a', 'b'] },
+      ])
+      expect(byTag).toEqual([{ id: 42, tags: ['b'] }])
+      expect(byValue).toEqual([null, 2])
+      expect(all).toEqual([])
+    })
+
+    it('should remove elements from null arrays', async () => {
+      const result = await executeQuery(
+        db,
+        jsonArrayRemoveWhere(sql<number[] | null>`NULL::jsonb`, 1),
+      )
+
+      expect(result).toEqual([])
+    })
+
+    it('should upsert elements by key', async () => {
+      const items = sql<
+        Array<{ id: number; name: string; qty?: number }>
+      >`'[{"id": 1, "name": "a", "qty": 1}, {"id": 7, "name": "b", "qty": 2}]'::jsonb`
+      const [replaced, merged, appended, created] = await Promise.all([
+        executeQuery(db, jsonArrayUpsertBy(items, 'id', { id: 7, name: 'c' })),
+        executeQuery(
+          db,
+          jsonArrayUpsertBy(items, 'id', { id: 7, name: 'c' }, { merge: true }),
+        ),
+        executeQuery(db, jsonArrayUpsertBy(items, 'id', { id: 8, name: 'd' })),
+        executeQuery(
+          db,
+          jsonArrayUpsertBy(
+            sql<Array<{ id: number; name: string }> | null>`NULL::jsonb`,
+            'id',
+            { id: 1, name: 'a' },
+          ),
+        ),
+      ])
+
+      expect(replaced).toEqual([
+        { id: 1, name: 'a', qty: 1 },
+        { id: 7, name: 'c' },
+      ])
+      expect(merged).toEqual([
+        { id: 1, name: 'a', qty: 1 },
+        { id: 7, name: 'c', qty: 2 },
+      ])
+      expect(appended).toEqual([
+        { id: 1, name: 'a', qty: 1 },
+        { id: 7, name: 'b', qty: 2 },
+        { id: 8, name: 'd' },
+      ])
+      expect(created).toEqual([{ id: 1, name: 'a' }])
+    })
+
+    it('should map elements matching a value or predicate', async () => {
+      const items = sql<
+        Array<{ id: number; status: string; qty: number }>
+      >`'[{"id": 1, "status": "pending", "qty": 1}, {"id": 2, "status": "shipped", "qty": 5}, {"id": 3, "status": "pending", "qty": 20}]'::jsonb`
+      const [cancelled, doubled, empty] = await Promise.all([
+        executeQuery(
+          db,
+          jsonArrayMap(items, (item) => item.status.$set('cancelled'), {
+            status: 'pending',
+          }),
+        ),
+        executeQuery(
+          db,
+          jsonArrayMap(
+            items,
+            (item, value) =>
+              item.qty.$set(sql`to_jsonb(${value.qty.$number} * 2)`),
+            (value) => sql`${value.qty.$number} < 10`,
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonArrayMap(sql<number[] | null>`NULL::jsonb`, () => 1),
+        ),
+      ])
+
+      expect(cancelled).toEqual([
+        { id: 1, status: 'cancelled', qty: 1 },
+        { id: 2, status: 'shipped', qty: 5 },
+        { id: 3, status: 'cancelled', qty: 20 },
+      ])
+      expect(doubled).toEqual([
+        { id: 1, status: 'pending', qty: 2 },
+        { id: 2, status: 'shipped', qty: 10 },
+        { id: 3, status: 'pending', qty: 20 },
+      ])
+      expect(empty).toEqual([])
+    })
+
+    it('should query arrays', async () => {
+      const items = sql<
+        Array<{ id: number; name: string }>
+      >`'[{"id": 3, "name": "c"}, {"id": 1, "name": "a"}, {"name": "x"}, {"id": 2, "name": "b"}]'::jsonb`
+      const tags = sql<string[]>`'["a", "b", "a", "c", "b"]'::jsonb`
+      const [
+        length,
+        contains,
+        missing,
+        indexOf,
+        notFound,
+        sorted,
+        sortedDesc,
+        distinct,
+      ] = await Promise.all([
+        executeQuery(db, jsonArrayLength(items)),
+        executeQuery(db, jsonArrayContains(items, { id: 1 })),
+        executeQuery(db, jsonArrayContains(tags, 'z')),
+        executeQuery(db, jsonArrayIndexOf(items, { name: 'a' })),
+        executeQuery(db, jsonArrayIndexOf(tags, 'z')),
+        executeQuery(db, jsonArraySortBy(items, 'id')),
+        executeQuery(db, jsonArraySortBy(items, 'id', { desc: true })),
+        executeQuery(db, jsonArrayDistinct(tags)),
+      ])
+
+      expect(length).toBe(4)
+      expect(contains).toBe(true)
+      expect(missing).toBe(false)
+      expect(indexOf).toBe(1)
+      expect(notFound).toBe(-1)
+      expect(sorted.map((item: any) => item.name)).toEqual(['a', 'b', 'c', 'x'])
+      expect(sortedDesc.map((item: any) => item.name)).toEqual([
+        'c',
+        'b',
+        'a',
+        'x',
+      ])
+      expect(distinct).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should slice arrays like Array.prototype.slice', async () => {
+      const values = [1, 2, 3, 4, 5]
+      const array = sql<number[]>`'[1, 2, 3, 4, 5]'::jsonb`
+      const ranges: Array<[number, number?]> = [
+        [0],
+        [2],
+        [-2],
+        [1, 3],
+        [1, -1],
+        [-3, -1],
+        [0, 0],
+        [3, 1],
+        [10],
+        [-10, 2],
+      ]
+
+      for (const [start, end] of ranges) {
+        expect(
+          await executeQuery(db, jsonArraySlice(array, start, end)),
+        ).toEqual(values.slice(start, end))
+      }
+    })
+
+    it('should treat null arrays as empty in queries', async () => {
+      const nullArray = sql<number[] | null>`NULL::jsonb`
+      const results = await Promise.all([
+        executeQuery(db, jsonArrayLength(nullArray)),
+        executeQuery(db, jsonArrayContains(nullArray, 1)),
+        executeQuery(db, jsonArrayIndexOf(nullArray, 1)),
+        executeQuery(db, jsonArraySlice(nullArray, 1)),
+        executeQuery(db, jsonArrayDistinct(nullArray)),
+      ])
+
+      expect(results).toEqual([0, false, -1, [], []])
+    })
+
+    it('should handle out-of-bounds array operations gracefully', async () => {
+      const baseArray = sql<string[]>`'["a", "b"]'::jsonb`
+
+      // Set out of bounds - PostgreSQL jsonb_set doesn't extend with nulls like I expected
+      const extendedArray = jsonArraySet(baseArray, 5, 'far')
+      const extendedResult = await executeQuery(db, extendedArray)
+
+      // Delete out of bounds (should be no-op)
+      const deleteOutOfBounds = jsonArrayDelete(baseArray, 10)
+      const deleteResult = await executeQuery(db, deleteOutOfBounds)
+
+      // PostgreSQL behavior: setting out of bounds just appends at the end
+      expect(extendedResult).toEqual(['a', 'b', 'far'])
+      expect(deleteResult).toEqual(['a', 'b'])
     })
 
     it('should push SQL expressions', async () => {
@@ -787,6 +1813,816 @@ describe('JSON Integration Tests', () => {
     })
   })
 
+  describe('JSON Predicates Runtime Behavior', () => {
+    const value = sql<{
+      user: { name: string; roles: string[]; settings?: { beta: boolean } }
+      items: Array<{ id: number; name: string }>
+    }>`'{"user": {"name": "John", "roles": ["admin", "dev"], "settings": {"beta": true}}, "items": [{"id": 1, "name": "a"}, {"id": 2, "name": "b"}]}'::jsonb`
+
+    it('should evaluate containment', async () => {
+      const accessor = jsonAccess(value)
+      const results = await Promise.all([
+        executeQuery(db, jsonContains(value, { user: { roles: ['dev'] } })),
+        executeQuery(db, accessor.user.settings.$contains({ beta: true })),
+        executeQuery(db, accessor.user.settings.$contains({ beta: false })),
+        executeQuery(db, accessor.items.$contains([{ id: 2 }])),
+        executeQuery(db, accessor.items[1].$contains({ name: 'b' })),
+        executeQuery(
+          db,
+          accessor.user.roles.$containedBy(['admin', 'dev', 'ops']),
+        ),
+        executeQuery(db, jsonContainedBy(value, sql`'{}'::jsonb`)),
+      ])
+
+      expect(results).toEqual([true, true, false, true, true, true, false])
+    })
+
+    it('should evaluate key existence', async () => {
+      const accessor = jsonAccess(value)
+      const results = await Promise.all([
+        executeQuery(db, jsonHasKey(value, 'user')),
+        executeQuery(db, accessor.user.$hasKey('settings')),
+        executeQuery(db, accessor.user.roles.$hasKey('ops')),
+        executeQuery(db, accessor.user.roles.$hasAnyKeys(['ops', 'dev'])),
+        executeQuery(db, jsonHasAllKeys(value, ['user', 'items'])),
+        executeQuery(db, jsonHasAnyKeys(value, [])),
+      ])
+
+      expect(results).toEqual([true, true, false, true, true, false])
+    })
+  })
+
+  describe('JSON Path Runtime Behavior', () => {
+    const value = sql<{
+      user: { name: string; age: number }
+      items: Array<{ id: number; price: number; tags: string[] }>
+    }>`'{"user": {"name": "John", "age": 30}, "items": [{"id": 1, "price": 5, "tags": ["new"]}, {"id": 2, "price": 15, "tags": ["sale"]}, {"id": 3, "price": 25, "tags": []}]}'::jsonb`
+
+    it('should query items', async () => {
+      const results = await Promise.all([
+        executeQuery(
+          db,
+          jsonPathQuery(
+            value,
+            (root) => root.items.$each.$filter((item) => item.price.$gt(10)).id,
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathQuery(
+            value,
+            (root, vars) =>
+              root.items.$each.$filter((item) => item.price.$lte(vars.max)).id,
+            { max: 15 },
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathQuery(value, (root) => root.items.$slice(-2, -1).id),
+        ),
+        executeQuery(
+          db,
+          jsonPathQueryFirst(value, (root) =>
+            root.items.$each.$filter((item) =>
+              item.tags.$each.$filter((tag) => tag.$eq('sale')).$exists(),
+            ),
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathQueryFirst(value, (root) => root.items.$at(5)),
+        ),
+      ])
+
+      expect(results).toEqual([
+        [2, 3],
+        [1, 2],
+        [2, 3],
+        { id: 2, price: 15, tags: ['sale'] },
+        null,
+      ])
+    })
+
+    it('should check existence and predicates', async () => {
+      const results = await Promise.all([
+        executeQuery(
+          db,
+          jsonPathExists(value, (root) =>
+            root.items.$each.$filter((item) => item.price.$gt(20)),
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathExists(
+            value,
+            (root, vars) =>
+              root.items.$each.$filter((item) => item.price.$gt(vars.min)),
+            { min: 100 },
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathMatch(value, (root) =>
+            root.user.age.$gte(18).$and(root.user.name.$likeRegex('^j', 'i')),
+          ),
+        ),
+        executeQuery(
+          db,
+          jsonPathMatch(
+            value,
+            (root, vars) => root.user.name.$startsWith(vars.prefix),
+            { prefix: 'Ja' },
+          ),
+        ),
+      ])
+
+      expect(results).toEqual([true, false, true, false])
+    })
+  })
+
+  describe('JSON Rows Runtime Behavior', () => {
+    type Order = {
+      id: number
+      items: Array<{ sku: string; qty: number; note?: string; price?: number }>
+    }
+
+    const orders = sql<Order[]>`'[
+      {"id": 1, "items": [{"sku": "a", "qty": 2, "price": 1.5}, {"sku": "b", "qty": 1, "note": "gift"}]},
+      {"id": 2, "items": []},
+      {"id": 3}
+    ]'::jsonb`
+
+    it('should expand array elements into rows', async () => {
+      const order = jsonArrayElements(orders, 'order')
+      const rows = await db.select().from(order)
+
+      expect(rows.map((row) => [row.ordinality, row.value.id])).toEqual([
+        [1, 1],
+        [2, 2],
+        [3, 3],
+      ])
+    })
+
+    it('should join nested arrays laterally', async () => {
+      const order = jsonArrayElements(orders, 'order')
+      const item = jsonToRecordset(
+        jsonAccess(order.value).items.$path,
+        'item',
+        {
+          sku: text(),
+          qty: integer(),
+          note: text(),
+          price: numeric({ mode: 'number' }),
+        },
+      )
+      const rows = await db
+        .select({
+          id: jsonAccess(order.value).id.$integer,
+          sku: item.sku,
+          qty: item.qty,
+          note: item.note,
+          price: item.price,
+        })
+        .from(order)
+        .leftJoinLateral(item, sql`true`)
+        .orderBy(order.ordinality, item.sku)
+
+      expect(rows).toEqual([
+        { id: 1, sku: 'a', qty: 2, note: null, price: 1.5 },
+        { id: 1, sku: 'b', qty: 1, note: 'gift', price: null },
+        { id: 2, sku: null, qty: null, note: null, price: null },
+        { id: 3, sku: null, qty: null, note: null, price: null },
+      ])
+    })
+
+    it('should expand object members into rows', async () => {
+      const setting = jsonEach(
+        sql<Record<
+          string,
+          boolean
+        > | null>`'{"dark": true, "beta": false}'::jsonb`,
+        'setting',
+      )
+      const rows = await db
+        .select()
+        .from(setting)
+        .where(eq(setting.value, sql`'true'::jsonb`))
+
+      expect(rows).toEqual([{ key: 'dark', value: true }])
+    })
+
+    it('should extract typed columns from an object', async () => {
+      const profile = jsonToRecord(
+        sql<object>`'{"age": "42", "active": true, "birth_date": "1990-05-17", "extra": 1}'::jsonb`,
+        'profile',
+        {
+          age: integer(),
+          active: boolean().notNull(),
+          birthday: plainDate.column('birth_date'),
+          missing: text(),
+        },
+      )
+      const [row] = await db.select().from(profile)
+
+      expect(row).toEqual({
+        age: 42,
+        active: true,
+        birthday: Temporal.PlainDate.from('1990-05-17'),
+        missing: null,
+      })
+      expect(row!.birthday).toBeInstanceOf(Temporal.PlainDate)
+    })
+
+    it('should join extracted columns laterally', async () => {
+      const order = jsonArrayElements(orders, 'order')
+      const fields = jsonToRecord(order.value, 'fields', { id: integer() })
+      const rows = await db
+        .select({ id: fields.id })
+        .from(order)
+        .crossJoinLateral(fields)
+        .where(gt(fields.id, 1))
+
+      expect(rows).toEqual([{ id: 2 }, { id: 3 }])
+    })
+
+    it('should produce no rows for null sources', async () => {
+      const [elements, members, records] = await Promise.all([
+        db.select().from(jsonArrayElements(sql<number[]>`'null'::jsonb`, 'e')),
+        db.select().from(jsonEach(sql<{ a: 1 } | null>`NULL::jsonb`, 'm')),
+        db.select().from(
+          jsonToRecordset(sql<Array<{ a: number }> | null>`NULL`, 'r', {
+            a: integer(),
+          }),
+        ),
+      ])
+
+      expect([elements, members, records]).toEqual([[], [], []])
+    })
+  })
+
+  describe('JSON Table Runtime Behavior', () => {
+    type Order = {
+      id: number
+      placed: string
+      items: Array<{
+        sku: string
+        qty: number
+        shipping?: { city: string }
+        tags: Array<{ name: string }>
+      }>
+    }
+
+    const orders = sql<Order[]>`'[
+      {"id": 1, "placed": "2024-03-01", "items": [
+        {"sku": "a", "qty": 2, "shipping": {"city": "Oslo"}, "tags": [{"name": "new"}, {"name": "sale"}]},
+        {"sku": "b", "qty": "1", "tags": []}
+      ]},
+      {"id": 2, "placed": "2024-03-02", "items": []}
+    ]'::jsonb`
+
+    it('should support the server', async () => {
+      await expect(assertJSONTableSupport(db)).resolves.toBeUndefined()
+    })
+
+    it('should turn nested JSON into rows', async () => {
+      const order = jsonTable(orders, 'order', {
+        path: (root) => root.$each,
+        columns: {
+          id: integer().notNull(),
+          placed: plainDate.column(),
+        },
+        nested: {
+          path: (order) => order.items.$each,
+          columns: (order) => ({
+            sku: text(),
+            qty: integer(),
+            city: { column: text(), path: order.items.$each.shipping.city },
+          }),
+        },
+      })
+      const rows = await db.select().from(order).orderBy(order.id, order.sku)
+
+      expect(rows).toEqual([
+        {
+          id: 1,
+          placed: Temporal.PlainDate.from('2024-03-01'),
+          sku: 'a',
+          qty: 2,
+          city: 'Oslo',
+        },
+        {
+          id: 1,
+          placed: Temporal.PlainDate.from('2024-03-01'),
+          sku: 'b',
+          qty: 1,
+          city: null,
+        },
+        {
+          id: 2,
+          placed: Temporal.PlainDate.from('2024-03-02'),
+          sku: null,
+          qty: null,
+          city: null,
+        },
+      ])
+      expect(rows[0]!.placed).toBeInstanceOf(Temporal.PlainDate)
+    })
+
+    it('should join sibling nested paths', async () => {
+      const item = jsonTable(orders, 'item', {
+        path: (root) => root.items.$each,
+        columns: { sku: text() },
+        nested: [
+          {
+            path: (item) => item.tags.$each,
+            columns: { tag: text('name') },
+          },
+          { path: (item) => item.shipping, columns: { city: text() } },
+        ],
+      })
+      const rows = await db
+        .select({ sku: item.sku, tag: item.tag, city: item.city })
+        .from(item)
+
+      expect(rows).toEqual([
+        { sku: 'a', tag: 'new', city: null },
+        { sku: 'a', tag: 'sale', city: null },
+        { sku: 'a', tag: null, city: 'Oslo' },
+        { sku: 'b', tag: null, city: null },
+      ])
+    })
+
+    it('should join laterally', async () => {
+      const order = jsonArrayElements(orders, 'order')
+      const item = jsonTable(order.value, 'item', {
+        path: (root) => root.items.$each,
+        columns: { sku: text().notNull() },
+      })
+      const rows = await db
+        .select({ order: order.ordinality, sku: item.sku })
+        .from(order)
+        .crossJoinLateral(item)
+
+      expect(rows).toEqual([
+        { order: 1, sku: 'a' },
+        { order: 1, sku: 'b' },
+      ])
+    })
+  })
+
+  describe('JSON Aggregation Runtime Behavior', () => {
+    const items = jsonToRecordset(
+      sql<Array<{ id: number; name: string; group: string }>>`'[
+        {"id": 1, "name": "a", "group": "x"},
+        {"id": 2, "name": "b", "group": "y"},
+        {"id": 3, "name": "c", "group": "x"},
+        {"id": 4, "name": "a", "group": "y"}
+      ]'::jsonb`,
+      'item',
+      { id: integer(), name: text(), group: text() },
+    )
+
+    it('should aggregate rows into arrays', async () => {
+      const [row] = await db
+        .select({
+          all: jsonAgg(
+            { id: items.id, name: items.name },
+            { orderBy: desc(items.id) },
+          ),
+          names: jsonAgg(items.name, { orderBy: items.name, distinct: true }),
+          filtered: jsonAgg(items.id, {
+            orderBy: items.id,
+            filter: eq(items.group, 'x'),
+          }),
+          none: jsonAgg(items.id, { filter: sql`false` }),
+        })
+        .from(items)
+
+      expect(row).toEqual({
+        all: [
+          { id: 4, name: 'a' },
+          { id: 3, name: 'c' },
+          { id: 2, name: 'b' },
+          { id: 1, name: 'a' },
+        ],
+        names: ['a', 'b', 'c'],
+        filtered: [1, 3],
+        none: [],
+      })
+    })
+
+    it('should aggregate rows into objects', async () => {
+      const rows = await db
+        .select({
+          group: items.group,
+          byName: jsonObjectAgg(items.name, { id: items.id }),
+        })
+        .from(items)
+        .groupBy(items.group)
+        .orderBy(items.group)
+
+      expect(rows).toEqual([
+        { group: 'x', byName: { a: { id: 1 }, c: { id: 3 } } },
+        { group: 'y', byName: { a: { id: 4 }, b: { id: 2 } } },
+      ])
+    })
+
+    it('should return empty values without rows', async () => {
+      const tag = jsonArrayElements(sql<string[]>`'["a"]'::jsonb`, 'tag')
+      const [row] = await db
+        .select({
+          array: jsonAgg(items.name, { filter: isNotNull(items.id) }),
+          object: jsonObjectAgg(items.name, items.id),
+        })
+        .from(tag)
+        .leftJoinLateral(items, sql`false`)
+
+      expect(row).toEqual({ array: [], object: {} })
+    })
+  })
+
+  describe('JSON From Row Runtime Behavior', () => {
+    const people = pgTable('json_row_people', {
+      id: integer('id').notNull(),
+      name: text('full_name').notNull(),
+      birthday: plainDate.column('birthday'),
+      updatedAt: timestampz.column('updated_at'),
+      tags: jsonb('tags').$type<string[]>(),
+    })
+
+    beforeAll(async () => {
+      await db.execute(sql`
+        CREATE TABLE json_row_people (
+          id INTEGER NOT NULL,
+          full_name TEXT NOT NULL,
+          birthday DATE,
+          updated_at TIMESTAMP WITH TIME ZONE,
+          tags JSONB
+        )
+      `)
+      await db.insert(people).values([
+        {
+          id: 1,
+          name: 'Jane',
+          birthday: Temporal.PlainDate.from('1990-05-17'),
+          updatedAt: Temporal.ZonedDateTime.from(
+            '2024-01-02T03:04:05+00:00[UTC]',
+          ),
+          tags: ['1', 'a'],
+        },
+        { id: 2, name: 'John', birthday: null, updatedAt: null, tags: null },
+      ])
+    })
+
+    it('should decode columns like a regular select', async () => {
+      const rows = await db
+        .select({ person: jsonFromRow(people, { omit: ['id'] }) })
+        .from(people)
+        .orderBy(people.id)
+
+      expect(rows[0]!.person.birthday).toBeInstanceOf(Temporal.PlainDate)
+      expect(rows[0]!.person.birthday!.toString()).toBe('1990-05-17')
+      expect(
+        rows[0]!.person.updatedAt!.equals(
+          Temporal.ZonedDateTime.from('2024-01-02T03:04:05+00:00[UTC]'),
+        ),
+      ).toBe(true)
+      expect(rows[0]!.person.tags).toEqual(['1', 'a'])
+      expect(rows[1]!.person).toEqual({
+        name: 'John',
+        birthday: null,
+        updatedAt: null,
+        tags: null,
+      })
+    })
+
+    it('should aggregate picked and renamed rows', async () => {
+      const [row] = await db
+        .select({
+          people: jsonAgg(
+            jsonFromRow(people, {
+              pick: ['id', 'name'],
+              rename: { name: 'n' },
+            }),
+            { orderBy: desc(people.id) },
+          ),
+        })
+        .from(people)
+
+      expect(row!.people).toEqual([
+        { id: 2, n: 'John' },
+        { id: 1, n: 'Jane' },
+      ])
+    })
+
+    it('should embed temporal columns in their driver form', async () => {
+      const [row] = await db
+        .select({
+          people: jsonAgg(
+            jsonFromRow(people, { pick: ['birthday', 'updatedAt'] }),
+            { orderBy: people.id },
+          ),
+        })
+        .from(people)
+
+      expect(row!.people).toEqual([
+        { birthday: '1990-05-17', updatedAt: '2024-01-02T03:04:05+00:00' },
+        { birthday: null, updatedAt: null },
+      ])
+      expect(
+        people.birthday.mapFromDriverValue(row!.people[0]!.birthday!),
+      ).toEqual(Temporal.PlainDate.from('1990-05-17'))
+    })
+  })
+
+  describe('Typed JSONB Runtime Behavior', () => {
+    const Settings: StandardSchemaV1<{ theme: 'dark' | 'light' }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const theme = (value as { theme?: unknown } | null)?.theme
+          return theme === 'dark' || theme === 'light'
+            ? { value: { theme } }
+            : { issues: [{ message: 'Invalid theme', path: ['theme'] }] }
+        },
+      },
+    }
+    const accounts = pgTable('json_typed_accounts', {
+      id: integer('id').notNull(),
+      settings: typedJsonb('settings', Settings),
+    })
+
+    beforeAll(async () => {
+      await db.execute(sql`
+        CREATE TABLE json_typed_accounts (id INTEGER NOT NULL, settings JSONB)
+      `)
+      await db.insert(accounts).values([
+        { id: 1, settings: { theme: 'dark' } },
+        { id: 2, settings: null },
+      ])
+    })
+
+    it('should read valid values', async () => {
+      const rows = await db.select().from(accounts).orderBy(accounts.id)
+
+      expect(rows).toEqual([
+        { id: 1, settings: { theme: 'dark' } },
+        { id: 2, settings: null },
+      ])
+    })
+
+    it('should reject invalid values before writing', async () => {
+      await expect(async () => {
+        await db
+          .insert(accounts)
+          .values({ id: 3, settings: { theme: 'blue' } as any })
+      }).rejects.toThrow(
+        'Invalid JSON written to the database: theme: Invalid theme',
+      )
+    })
+
+    it('should work with the accessors and setters', async () => {
+      await db
+        .update(accounts)
+        .set({
+          settings: jsonSet(accounts.settings).theme.$set('light'),
+        })
+        .where(eq(accounts.id, 1))
+      const [row] = await db
+        .select({ theme: jsonAccess(accounts.settings).theme.$value })
+        .from(accounts)
+        .where(eq(accounts.id, 1))
+
+      expect(row).toEqual({ theme: 'light' })
+    })
+
+    it('should reject malformed rows when reading', async () => {
+      await db.execute(
+        sql`INSERT INTO json_typed_accounts VALUES (4, '{"theme": "blue"}')`,
+      )
+
+      await expect(
+        db.select().from(accounts).where(eq(accounts.id, 4)),
+      ).rejects.toThrow('Invalid JSON read from the database')
+    })
+  })
+
+  describe('JSON Schema Constraints Runtime Behavior', () => {
+    const profiles = pgTable(
+      'json_schema_profiles',
+      { profile: jsonb('profile') },
+      (table) =>
+        jsonSchemaConstraints(table.profile, {
+          type: 'object',
+          required: ['name'],
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            age: { type: ['integer', 'null'], minimum: 0 },
+            role: { enum: ['admin', 'user'] },
+            tags: { type: 'array', maxItems: 2, items: { type: 'string' } },
+            preferences: {
+              properties: {
+                notifications: {
+                  properties: { reminderFrequency: { type: 'string' } },
+                },
+              },
+            },
+          },
+        }),
+    )
+
+    beforeAll(async () => {
+      await db.execute(sql`CREATE TABLE json_schema_profiles (profile JSONB)`)
+      for (const check of getTableConfig(profiles).checks)
+        await db.execute(
+          sql`ALTER TABLE json_schema_profiles ADD CONSTRAINT ${sql.identifier(check.name)} CHECK (${check.value})`,
+        )
+    })
+
+    const insert = (profile: unknown) => db.insert(profiles).values({ profile })
+
+    it('should accept matching values', async () => {
+      await insert({ name: 'Jane' })
+      await insert({ name: 'John', age: null, role: 'admin', tags: ['a'] })
+      await insert(null)
+    })
+
+    it.each([
+      ['type', []],
+      ['required', { age: 1 }],
+      ['additionalProperties', { name: 'Jane', extra: true }],
+      ['name/type', { name: 1 }],
+      ['name/minLength', { name: '' }],
+      ['age/type', { name: 'Jane', age: 1.5 }],
+      ['age/minimum', { name: 'Jane', age: -1 }],
+      ['role/enum', { name: 'Jane', role: 'root' }],
+      ['tags/maxItems', { name: 'Jane', tags: ['a', 'b', 'c'] }],
+      ['tags/items_type', { name: 'Jane', tags: ['a', 1] }],
+      [
+        'preferences/notifications/reminde_7f19a98d',
+        {
+          name: 'Jane',
+          preferences: { notifications: { reminderFrequency: 1 } },
+        },
+      ],
+    ])('should reject values failing the %s check', async (check, profile) => {
+      await expect(insert(profile)).rejects.toHaveProperty(
+        'cause.message',
+        expect.stringContaining(`check_profile_schema_${check}`),
+      )
+    })
+  })
+
+  describe('JSON Generated Columns Runtime Behavior', () => {
+    type Order = { customer: { email: string }; total: number; tags: string[] }
+
+    const data = jsonb('data').$type<Order>().notNull()
+    const orders = pgTable('json_generated_orders', {
+      data,
+      email: jsonGenerated(data, (data) => data.customer.email.$value),
+      total: jsonGenerated(data, (data) => data.total.$number),
+      tags: jsonGenerated(data, (data) => data.tags.$path),
+    })
+
+    beforeAll(async () => {
+      const columns = getTableConfig(orders).columns.map((column) =>
+        column.generated
+          ? sql`${sql.identifier(column.name)} ${sql.raw(column.getSQLType())} GENERATED ALWAYS AS (${column.generated.as as SQL}) STORED`
+          : sql`${sql.identifier(column.name)} ${sql.raw(column.getSQLType())}`,
+      )
+      await db.execute(
+        sql`CREATE TABLE json_generated_orders (${sql.join(columns, sql`, `)})`,
+      )
+      await db.insert(orders).values([
+        {
+          data: { customer: { email: 'a@example.com' }, total: 10.5, tags: [] },
+        },
+        {
+          data: { customer: { email: 'b@example.com' }, total: 3, tags: ['x'] },
+        },
+      ])
+    })
+
+    it('should compute the columns from the JSON', async () => {
+      const result = await db
+        .select({
+          email: orders.email,
+          total: orders.total,
+          tags: orders.tags,
+        })
+        .from(orders)
+        .where(gt(orders.total, 5))
+
+      expect(result).toEqual([
+        { email: 'a@example.com', total: 10.5, tags: [] },
+      ])
+    })
+
+    it('should recompute the columns on update', async () => {
+      const [result] = await db
+        .update(orders)
+        .set({
+          data: { customer: { email: 'c@example.com' }, total: 7, tags: [] },
+        })
+        .where(eq(orders.email, 'b@example.com'))
+        .returning({ email: orders.email, total: orders.total })
+
+      expect(result).toEqual({ email: 'c@example.com', total: 7 })
+    })
+  })
+
+  describe('JSON Indexes Runtime Behavior', () => {
+    type Profile = { email: string; age: number; tags: string[] }
+
+    const users = pgTable(
+      'json_index_users',
+      { profile: jsonb('profile').$type<Profile>().notNull() },
+      (table) => [
+        jsonGinIndex('json_index_users_profile', table.profile, {
+          opClass: 'jsonb_path_ops',
+        }),
+        jsonGinIndex<Profile>('json_index_users_tags', table.profile, {
+          path: (profile) => profile.tags,
+        }),
+        jsonBtreeIndex<Profile>(
+          'json_index_users_age',
+          table.profile,
+          (profile) => profile.age.$integer,
+        ),
+        jsonBtreeIndex<Profile>(
+          'json_index_users_email',
+          table.profile,
+          (profile) => profile.email.$value,
+          { unique: true },
+        ),
+      ],
+    )
+    const profile = jsonAccess(users.profile)
+
+    beforeAll(async () => {
+      await db.execute(sql`CREATE TABLE json_index_users (profile JSONB)`)
+      for (const { config } of getTableConfig(users).indexes) {
+        const columns = (config.columns as Array<IndexedColumn | SQL>).map(
+          (column) =>
+            is(column, SQL)
+              ? column
+              : sql`${sql.identifier(column.name!)} ${sql.raw(column.indexConfig!.opClass!)}`,
+        )
+        await db.execute(
+          sql`CREATE ${sql.raw(config.unique ? 'UNIQUE INDEX' : 'INDEX')} ${sql.identifier(config.name!)} ON json_index_users USING ${sql.raw(config.method!)} (${sql.join(columns, sql`, `)})`,
+        )
+      }
+      await db.insert(users).values(
+        Array.from({ length: 20 }, (_, i) => ({
+          profile: { email: `user${i}@example.com`, age: i, tags: [`tag${i}`] },
+        })),
+      )
+      await db.execute(sql`SET enable_seqscan = off`)
+      return () => db.execute(sql`RESET enable_seqscan`)
+    })
+
+    const plan = async (condition: SQL) => {
+      const { rows } = await db.execute(
+        sql`EXPLAIN ${db.select().from(users).where(condition)}`,
+      )
+      return rows.map((row) => row['QUERY PLAN']).join('\n')
+    }
+
+    it('should use the column index for containment', async () => {
+      expect(await plan(profile.tags.$contains(['tag1']))).toContain(
+        'json_index_users_profile',
+      )
+    })
+
+    it('should use the nested value index for containment', async () => {
+      expect(await plan(jsonContains(profile.tags.$path, ['tag1']))).toContain(
+        'json_index_users_tags',
+      )
+    })
+
+    it('should use the B-tree index for casted comparisons', async () => {
+      expect(await plan(gt(profile.age.$integer, 15))).toContain(
+        'json_index_users_age',
+      )
+      expect(
+        await plan(eq(profile.email.$value, 'user1@example.com')),
+      ).toContain('json_index_users_email')
+    })
+
+    it('should enforce unique indexes', async () => {
+      await expect(
+        db.insert(users).values({
+          profile: { email: 'user1@example.com', age: 1, tags: [] },
+        }),
+      ).rejects.toHaveProperty(
+        'cause.message',
+        expect.stringContaining('json_index_users_email'),
+      )
+    })
+  })
+
   describe('Edge Cases and Type Safety', () => {
     it('should handle numeric type coercion', async () => {
       const numericData = sql<{
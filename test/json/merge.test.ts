@@ -1,7 +1,11 @@
 import { type SQL, sql } from 'drizzle-orm'
 
 import { describe, expect, expectTypeOf, it } from 'vitest'
-import { jsonMerge } from '../../src/json/operations/merge.ts'
+import {
+  jsonDeepMerge,
+  jsonMerge,
+  jsonMergePatch,
+} from '../../src/json/operations/merge.ts'
 import { dialect, table } from '../utils.ts'
 
 describe('JSON Merge Operations', () => {
@@ -399,4 +403,154 @@ describe('JSON Merge Operations', () => {
       )
     })
   })
+
+  describe('Deep Merge', () => {
+    const leftSql = `'{"user": {"name": "John", "tags": ["a"]}}'::jsonb`
+    const rightSql = `'{"user": {"age": 30, "tags": ["b"]}}'::jsonb`
+    const left = sql<{
+      user: { name: string; tags: string[] }
+    }>`${sql.raw(leftSql)}`
+    const right = sql<{
+      user: { age: number; tags: string[] }
+    }>`${sql.raw(rightSql)}`
+
+    const recursive = (arrayValue: (left: string, right: string) => string) =>
+      `(with recursive leaves(path, value) as (select array[entry.key], entry.value from jsonb_each(input.r) as entry union all select leaves.path || entry.key, entry.value from leaves, jsonb_each(case when jsonb_typeof(leaves.value) = 'object' and jsonb_typeof(input.l #> leaves.path) = 'object' then leaves.value else '{}'::jsonb end) as entry), steps(n, path, value) as (select row_number() over (), leaves.path, ${arrayValue('input.l #> leaves.path', 'leaves.value')} from leaves where jsonb_typeof(leaves.value) <> 'object' or jsonb_typeof(input.l #> leaves.path) is distinct from 'object'), merged(n, doc) as (select 0::bigint, input.l union all select steps.n, jsonb_set(merged.doc, steps.path, steps.value) from merged join steps on steps.n = merged.n + 1) select merged.doc from merged order by merged.n desc limit 1)`
+
+    it('replaces arrays by default', () => {
+      const result = jsonDeepMerge(left, right)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `(select case when jsonb_typeof(input.l) = 'object' and jsonb_typeof(input.r) = 'object' then ${recursive((_, r) => r)} else coalesce(input.r, input.l) end from (select ${leftSql}, ${rightSql}) as input(l, r))`,
+      )
+    })
+
+    it('concatenates arrays', () => {
+      const result = jsonDeepMerge(left, right, { arrays: 'concat' })
+      const query = dialect.sqlToQuery(result)
+      const concat = (l: string, r: string) =>
+        `case when jsonb_typeof(${l}) = 'array' and jsonb_typeof(${r}) = 'array' then ${l} || ${r} else ${r} end`
+
+      expect(query.sql).toBe(
+        `(select case when jsonb_typeof(input.l) = 'object' and jsonb_typeof(input.r) = 'object' then ${recursive(concat)} else coalesce(${concat('input.l', 'input.r')}, input.l) end from (select ${leftSql}, ${rightSql}) as input(l, r))`,
+      )
+    })
+
+    it('unions arrays', () => {
+      const result = jsonDeepMerge(table.arraycol, table.arraycol, {
+        arrays: 'union',
+      })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toContain(
+        `input.l || coalesce((select jsonb_agg(added.value order by added.ord) from (select element.value, min(element.ord) as ord from jsonb_array_elements(input.r) with ordinality as element(value, ord) where not exists (select 1 from jsonb_array_elements(input.l) as existing(value) where existing.value = element.value) group by element.value) as added), '[]'::jsonb)`,
+      )
+      expect(query.sql).toContain(
+        `from (select "test"."arraycol", "test"."arraycol") as input(l, r))`,
+      )
+    })
+
+    it('computes the recursive result type', () => {
+      expectTypeOf(jsonDeepMerge(left, right)).toEqualTypeOf<
+        SQL<{ user: { name: string; age: number; tags: string[] } }>
+      >()
+      expectTypeOf(
+        jsonDeepMerge(
+          sql<{ a: { b: number[] }; c?: string }>`'{}'::jsonb`,
+          sql<{ a: { b: string[]; d?: boolean }; c: number }>`'{}'::jsonb`,
+          { arrays: 'concat' },
+        ),
+      ).toEqualTypeOf<
+        SQL<{ a: { b: Array<number | string>; d?: boolean }; c: number }>
+      >()
+      expectTypeOf(
+        jsonDeepMerge(
+          sql<{ a: { b: number }; c: string }>`'{}'::jsonb`,
+          sql<{ a?: { d: string }; c: number[] }>`'{}'::jsonb`,
+        ),
+      ).toEqualTypeOf<
+        SQL<{
+          a: { b: number } | { b: number; d: string }
+          c: number[]
+        }>
+      >()
+    })
+
+    it('resolves SQL NULL to the other side', () => {
+      expectTypeOf(
+        jsonDeepMerge(
+          sql<{ some: string } | null>`NULL::jsonb`,
+          sql<{ other: number }>`'{}'::jsonb`,
+        ),
+      ).toEqualTypeOf<
+        SQL<{ some: string; other: number } | { other: number }>
+      >()
+      expectTypeOf(
+        jsonDeepMerge(
+          sql<{ some: string }>`'{}'::jsonb`,
+          sql<{ other: number } | null>`NULL::jsonb`,
+        ),
+      ).toEqualTypeOf<SQL<{ some: string; other: number } | { some: string }>>()
+    })
+  })
+
+  describe('Merge Patch', () => {
+    type Profile = {
+      name: string
+      nickname?: string | null
+      tags: string[]
+      address: { city: string; zip?: string }
+      settings?: { theme: string; lang?: string }
+    }
+    const profile = sql<Profile>`'{}'::jsonb`
+
+    const patched = `(with recursive leaves(path, value) as (select array[entry.key], entry.value from jsonb_each(input.p) as entry union all select leaves.path || entry.key, entry.value from leaves, jsonb_each(case when jsonb_typeof(leaves.value) = 'object' then leaves.value else '{}'::jsonb end) as entry), steps(n, path, value) as (select row_number() over (order by cardinality(leaves.path)), leaves.path, leaves.value from leaves), patched(n, doc) as (select 0::bigint, case when jsonb_typeof(input.t) = 'object' then input.t else '{}'::jsonb end union all select steps.n, case when steps.value = 'null'::jsonb then patched.doc #- steps.path when jsonb_typeof(steps.value) <> 'object' then jsonb_set(patched.doc, steps.path, steps.value) when jsonb_typeof(patched.doc #> steps.path) = 'object' then patched.doc else jsonb_set(patched.doc, steps.path, '{}'::jsonb) end from patched join steps on steps.n = patched.n + 1) select patched.doc from patched order by patched.n desc limit 1)`
+
+    it('builds the patch from a JS value', () => {
+      const result = jsonMergePatch(profile, {
+        nickname: null,
+        address: { zip: '10115' },
+      })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['null', '"10115"'])
+      expect(query.sql).toBe(
+        `(select case when jsonb_typeof(input.p) = 'object' then ${patched} else coalesce(input.p, input.t) end from (select '{}'::jsonb, jsonb_build_object('nickname', $1::jsonb,'address', jsonb_build_object('zip', $2::jsonb))) as input(t, p))`,
+      )
+    })
+
+    it('accepts an SQL patch', () => {
+      const result = jsonMergePatch(
+        table.jsoncol,
+        sql<{ some: 'json' }>`'{"some": "json"}'::jsonb`,
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toContain(
+        `from (select "test"."jsoncol", '{"some": "json"}'::jsonb) as input(t, p))`,
+      )
+    })
+
+    it('types the patch as a recursive partial', () => {
+      expectTypeOf(
+        jsonMergePatch(profile, { settings: { lang: null } }),
+      ).toEqualTypeOf<SQL<Profile>>()
+      jsonMergePatch(profile, {
+        name: sql<string>`'Jane'`,
+        tags: ['a'],
+        settings: null,
+      })
+      // @ts-expect-error - required keys cannot be removed
+      jsonMergePatch(profile, { name: null })
+      // @ts-expect-error - required nested keys cannot be removed
+      jsonMergePatch(profile, { address: { city: null } })
+      // @ts-expect-error - arrays are replaced, not patched
+      jsonMergePatch(profile, { tags: [1] })
+      // @ts-expect-error - unknown keys are not allowed
+      jsonMergePatch(profile, { unknown: 1 })
+    })
+  })
 })
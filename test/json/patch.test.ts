@@ -0,0 +1,173 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  jsonPatch,
+  type SQLJSONPatchOperation,
+  type SQLJSONPointer,
+  type SQLJSONPointerValue,
+} from '../../src/json/operations/patch.ts'
+import { dialect, table } from '../utils.ts'
+
+describe('JSON Patch', () => {
+  type JsonType = {
+    title: string
+    version: number
+    tags: string[]
+    author: { name: string; 'a/b~c'?: number }
+  }
+
+  const jsonObjectSql = `'{"title": "Hello", "version": 1, "tags": [], "author": {"name": "John"}}'::jsonb`
+  const jsonObject = sql<JsonType>`${sql.raw(jsonObjectSql)}`
+  const source = `coalesce(${jsonObjectSql}, 'null'::jsonb)`
+  const failure = (message: string) =>
+    `to_jsonb(concat('${message}', left(input.doc::text, 0))::integer)`
+
+  describe('SQL Generation', () => {
+    it('returns the source without operations', () => {
+      const query = dialect.sqlToQuery(jsonPatch(jsonObject, []))
+
+      expect(query.sql).toBe(source)
+    })
+
+    it('adds object members and array elements', () => {
+      const query = dialect.sqlToQuery(
+        jsonPatch(jsonObject, [
+          { op: 'add', path: '/title', value: 'World' },
+          { op: 'add', path: '/tags/0', value: 'a' },
+          { op: 'add', path: '/tags/-', value: 'b' },
+        ]),
+      )
+
+      expect(query.params).toEqual(['"World"', '"a"', '"b"'])
+      expect(query.sql).toBe(
+        `(select case when input.doc is not null then case jsonb_typeof(input.doc #> array['tags']::text[]) when 'object' then jsonb_set(input.doc, array['tags','-']::text[], input.value) when 'array' then jsonb_insert(input.doc, array['tags','-1']::text[], input.value, true) else ${failure('JSON Patch add failed at /tags/-')} end end from (select ` +
+          `(select case when input.doc is not null then case jsonb_typeof(input.doc #> array['tags']::text[]) when 'object' then jsonb_set(input.doc, array['tags','0']::text[], input.value) when 'array' then case when 0 <= jsonb_array_length(input.doc #> array['tags']::text[]) then jsonb_insert(input.doc, array['tags','0']::text[], input.value) else ${failure('JSON Patch add failed at /tags/0')} end else ${failure('JSON Patch add failed at /tags/0')} end end from (select ` +
+          `(select case when input.doc is not null then case jsonb_typeof(input.doc #> array[]::text[]) when 'object' then jsonb_set(input.doc, array['title']::text[], input.value) else ${failure('JSON Patch add failed at /title')} end end from (select ${source}, $1::jsonb) as input(doc, value))` +
+          `, $2::jsonb) as input(doc, value))` +
+          `, $3::jsonb) as input(doc, value))`,
+      )
+    })
+
+    it('removes, replaces and tests values', () => {
+      const query = dialect.sqlToQuery(
+        jsonPatch(jsonObject, [
+          { op: 'test', path: '/version', value: 1 },
+          {
+            op: 'replace',
+            path: '/author/name',
+            value: sql<string>`'"Jane"'::jsonb`,
+          },
+          { op: 'remove', path: '/author/a~1b~0c' },
+        ]),
+      )
+
+      expect(query.params).toEqual(['1'])
+      expect(query.sql).toBe(
+        `(select case when input.doc is not null then case when input.doc #> array['author','a/b~c']::text[] is null then ${failure('JSON Patch remove failed at /author/a~1b~0c')} else input.doc #- array['author','a/b~c']::text[] end end from (select ` +
+          `(select case when input.doc is not null then case when input.doc #> array['author','name']::text[] is null then ${failure('JSON Patch replace failed at /author/name')} else jsonb_set(input.doc, array['author','name']::text[], input.value, false) end end from (select ` +
+          `(select case when input.doc is not null then case when input.doc #> array['version']::text[] = input.value then input.doc else ${failure('JSON Patch test failed at /version')} end end from (select ${source}, $1::jsonb) as input(doc, value))` +
+          `, '"Jane"'::jsonb) as input(doc, value))` +
+          `) as input(doc))`,
+      )
+    })
+
+    it('moves and copies values', () => {
+      const query = dialect.sqlToQuery(
+        jsonPatch(table.jsoncol, [
+          { op: 'copy', from: '/some', path: '/other' },
+          { op: 'move', from: '/other', path: '/moved' },
+        ] as SQLJSONPatchOperation[]),
+      )
+
+      expect(query.sql).toBe(
+        `(select case when input.doc is not null then case when (input.doc #> array['other']::text[]) is null then ${failure('JSON Patch move failed at /other')} else case jsonb_typeof((input.doc #- array['other']::text[]) #> array[]::text[]) when 'object' then jsonb_set((input.doc #- array['other']::text[]), array['moved']::text[], (input.doc #> array['other']::text[])) else ${failure('JSON Patch move failed at /moved')} end end end from (select ` +
+          `(select case when input.doc is not null then case when (input.doc #> array['some']::text[]) is null then ${failure('JSON Patch copy failed at /some')} else case jsonb_typeof(input.doc #> array[]::text[]) when 'object' then jsonb_set(input.doc, array['other']::text[], (input.doc #> array['some']::text[])) else ${failure('JSON Patch copy failed at /other')} end end end from (select coalesce("test"."jsoncol", 'null'::jsonb)) as input(doc))` +
+          `) as input(doc))`,
+      )
+    })
+
+    it('does not resolve array indexes outside RFC 6901', () => {
+      const query = dialect.sqlToQuery(
+        jsonPatch(table.jsoncol, [
+          { op: 'remove', path: '/some/-1' } as SQLJSONPatchOperation,
+        ]),
+      )
+      const current = `(case when jsonb_typeof(input.doc #> array['some']::text[]) = 'array' then null else input.doc #> array['some','-1']::text[] end)`
+
+      expect(query.sql).toBe(
+        `(select case when input.doc is not null then case when ${current} is null then ${failure('JSON Patch remove failed at /some/-1')} else input.doc #- array['some','-1']::text[] end end from (select coalesce("test"."jsoncol", 'null'::jsonb)) as input(doc))`,
+      )
+    })
+
+    it('returns SQL NULL on failure when requested', () => {
+      const query = dialect.sqlToQuery(
+        jsonPatch(jsonObject, [{ op: 'test', path: '/version', value: 2 }], {
+          onFailure: 'null',
+        }),
+      )
+
+      expect(query.sql).toBe(
+        `(select case when input.doc is not null then case when input.doc #> array['version']::text[] = input.value then input.doc else null::jsonb end end from (select ${source}, $1::jsonb) as input(doc, value))`,
+      )
+    })
+
+    it('rejects invalid operations', () => {
+      expect(() =>
+        jsonPatch(jsonObject, [{ op: 'remove', path: 'title' as '/title' }]),
+      ).toThrow('Invalid JSON Pointer: title')
+      expect(() => jsonPatch(jsonObject, [{ op: 'remove', path: '' }])).toThrow(
+        'Cannot remove at root level',
+      )
+      expect(() =>
+        jsonPatch(jsonObject, [
+          { op: 'move', from: '/author', path: '/author/name' },
+        ]),
+      ).toThrow('Cannot move /author into its own child /author/name')
+      expect(() =>
+        jsonPatch(jsonObject, [
+          { op: 'merge', path: '' } as unknown as SQLJSONPatchOperation,
+        ]),
+      ).toThrow('Unsupported JSON Patch operation: merge')
+    })
+  })
+
+  describe('Type Safety', () => {
+    it('builds pointers from the document type', () => {
+      expectTypeOf<SQLJSONPointer<JsonType>>().toEqualTypeOf<
+        | '/title'
+        | '/version'
+        | '/tags'
+        | `/tags/${number}`
+        | '/tags/-'
+        | '/author'
+        | '/author/name'
+        | '/author/a~1b~0c'
+      >()
+      expectTypeOf<
+        SQLJSONPointerValue<JsonType, '/author/a~1b~0c'>
+      >().toEqualTypeOf<number | undefined>()
+      expectTypeOf<
+        SQLJSONPointerValue<JsonType, '/tags/-'>
+      >().toEqualTypeOf<string>()
+      expectTypeOf<SQLJSONPointer<any>>().toEqualTypeOf<string>()
+    })
+
+    it('types values by pointer', () => {
+      expectTypeOf(
+        jsonPatch(jsonObject, [{ op: 'add', path: '/tags/-', value: 'a' }]),
+      ).toEqualTypeOf<SQL<JsonType>>()
+      expectTypeOf(
+        jsonPatch(table.jsoncol, [], { onFailure: 'null' }),
+      ).toEqualTypeOf<SQL<{ some: 'json' } | null>>()
+
+      // @ts-expect-error - wrong value type
+      jsonPatch(jsonObject, [{ op: 'replace', path: '/version', value: '2' }])
+      // @ts-expect-error - unknown path
+      jsonPatch(jsonObject, [{ op: 'remove', path: '/unknown' }])
+      expect(() =>
+        // @ts-expect-error - missing from
+        jsonPatch(jsonObject, [{ op: 'copy', path: '/title' }]),
+      ).toThrow(TypeError)
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  buildJSONPath,
+  jsonPathExists,
+  jsonPathMatch,
+  jsonPathQuery,
+  jsonPathQueryFirst,
+} from '../../src/json/operations/path.ts'
+import { dialect, table } from '../utils.ts'
+
+describe('JSON Path', () => {
+  type JsonType = {
+    user: {
+      name: string
+      age: number
+      emails: Array<{ address: string; primary: boolean }>
+    }
+    items: Array<{ id: number; price: number; tags: string[] }>
+    metadata: { [key: string]: number }
+  }
+
+  const jsonObjectSql = `'{"user": {"name": "John", "age": 30, "emails": []}, "items": [], "metadata": {}}'::jsonb`
+  const jsonObject = sql<JsonType>`${sql.raw(jsonObjectSql)}`
+
+  describe('Path Building', () => {
+    it('builds member access', () => {
+      expect(buildJSONPath<JsonType>((root) => root.user.name)).toBe(
+        '$."user"."name"',
+      )
+    })
+
+    it('escapes member names', () => {
+      expect(
+        buildJSONPath<Record<string, string>>((root) => root['a "quoted" key']),
+      ).toBe('$."a \\"quoted\\" key"')
+    })
+
+    it('builds integer-like member names as keys', () => {
+      expect(
+        buildJSONPath<{ byYear: Record<string, number> }>(
+          (root) => root.byYear['2024'],
+        ),
+      ).toBe('$."byYear"."2024"')
+    })
+
+    it('builds wildcards', () => {
+      expect(buildJSONPath<JsonType>((root) => root.items.$each.id)).toBe(
+        '$."items"[*]."id"',
+      )
+      expect(buildJSONPath<JsonType>((root) => root.metadata.$members)).toBe(
+        '$."metadata".*',
+      )
+    })
+
+    it('builds indices and slices', () => {
+      expect(buildJSONPath<JsonType>((root) => root.items.$at(0))).toBe(
+        '$."items"[0]',
+      )
+      expect(buildJSONPath<JsonType>((root) => root.items.$at(-1))).toBe(
+        '$."items"[last]',
+      )
+      expect(buildJSONPath<JsonType>((root) => root.items.$at(-3))).toBe(
+        '$."items"[last - 2]',
+      )
+      expect(buildJSONPath<JsonType>((root) => root.items.$slice(1, -1))).toBe(
+        '$."items"[1 to last]',
+      )
+      expect(() =>
+        buildJSONPath<JsonType>((root) => root.items.$slice(0.5, 1)),
+      ).toThrow(TypeError)
+    })
+
+    it('builds filters with comparisons', () => {
+      expect(
+        buildJSONPath<JsonType>((root) =>
+          root.items.$each.$filter((item) =>
+            item.price.$gt(10).$and(item.id.$ne(2)),
+          ),
+        ),
+      ).toBe('$."items"[*] ? ((@."price" > 10 && @."id" != 2))')
+    })
+
+    it('builds string predicates', () => {
+      expect(
+        buildJSONPath<JsonType>((root) =>
+          root.user.emails.$filter((email) =>
+            email.address
+              .$likeRegex('@example\\.com$', 'i')
+              .$or(email.address.$startsWith('admin')),
+          ),
+        ),
+      ).toBe(
+        '$."user"."emails" ? ((@."address" like_regex "@example\\\\.com$" flag "i" || @."address" starts with "admin"))',
+      )
+    })
+
+    it('builds exists and negation', () => {
+      expect(
+        buildJSONPath<JsonType>((root) =>
+          root.items.$filter((item) =>
+            item.tags.$each
+              .$filter((tag) => tag.$eq('sale'))
+              .$exists()
+              .$not(),
+          ),
+        ),
+      ).toBe('$."items" ? (!(exists (@."tags"[*] ? (@ == "sale"))))')
+    })
+
+    it('compares against other paths and variables', () => {
+      expect(
+        buildJSONPath<JsonType, { max: number }>((root, vars) =>
+          root.items.$each.$filter((item) =>
+            item.price.$lte(vars.max).$and(item.id.$lt(root.user.age)),
+          ),
+        ),
+      ).toBe(
+        '$."items"[*] ? ((@."price" <= $"max" && @."id" < $."user"."age"))',
+      )
+    })
+
+    it('builds root predicates', () => {
+      expect(
+        buildJSONPath<JsonType>((root) =>
+          root.user.age.$gte(18).$and(root.user.name.$eq(null)),
+        ),
+      ).toBe('($."user"."age" >= 18 && $."user"."name" == null)')
+    })
+  })
+
+  describe('SQL Generation', () => {
+    it('queries an array of items', () => {
+      const result = jsonPathQuery(jsonObject, (root) => root.items.$each.id)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `jsonb_path_query_array(${jsonObjectSql}, '$."items"[*]."id"'::jsonpath)`,
+      )
+    })
+
+    it('passes variables', () => {
+      const result = jsonPathQuery(
+        table.arraycol,
+        (root, vars) => root.$each.$filter((item) => item.id.$gt(vars.min)),
+        { min: 5 },
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['5'])
+      expect(query.sql).toBe(
+        `jsonb_path_query_array("test"."arraycol", '$[*] ? (@."id" > $"min")'::jsonpath, jsonb_build_object('min', $1::jsonb))`,
+      )
+    })
+
+    it('queries the first item', () => {
+      const result = jsonPathQueryFirst(jsonObject, (root) => root.user.name)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.sql).toBe(
+        `jsonb_path_query_first(${jsonObjectSql}, '$."user"."name"'::jsonpath)`,
+      )
+    })
+
+    it('uses operators without variables', () => {
+      const exists = jsonPathExists(table.jsoncol, (root) => root.some)
+      const match = jsonPathMatch(table.jsoncol, (root) =>
+        root.some.$eq('json'),
+      )
+
+      expect(dialect.sqlToQuery(exists).sql).toBe(
+        `"test"."jsoncol" @? '$."some"'::jsonpath`,
+      )
+      expect(dialect.sqlToQuery(match).sql).toBe(
+        `"test"."jsoncol" @@ '$."some" == "json"'::jsonpath`,
+      )
+    })
+
+    it('uses functions with variables', () => {
+      const exists = jsonPathExists(
+        table.jsoncol,
+        (root, vars) => root.$filter((item) => item.some.$eq(vars.value)),
+        { value: 'json' },
+      )
+      const match = jsonPathMatch(
+        table.jsoncol,
+        (root, vars) => root.some.$eq(vars.value),
+        { value: sql<string>`'"json"'::jsonb` },
+      )
+
+      expect(dialect.sqlToQuery(exists).sql).toBe(
+        `jsonb_path_exists("test"."jsoncol", '$ ? (@."some" == $"value")'::jsonpath, jsonb_build_object('value', $1::jsonb))`,
+      )
+      expect(dialect.sqlToQuery(match).sql).toBe(
+        `jsonb_path_match("test"."jsoncol", '$."some" == $"value"'::jsonpath, jsonb_build_object('value', '"json"'::jsonb))`,
+      )
+    })
+
+    it('escapes quotes in the path literal', () => {
+      const record = sql<Record<string, number>>`'{}'::jsonb`
+      const result = jsonPathExists(record, (root) => root["it's"])
+
+      expect(dialect.sqlToQuery(result).sql).toBe(
+        `'{}'::jsonb @? '$."it''s"'::jsonpath`,
+      )
+    })
+  })
+
+  describe('Type Safety', () => {
+    it('infers result types', () => {
+      expectTypeOf(
+        jsonPathQuery(jsonObject, (root) => root.items.$each.price),
+      ).toEqualTypeOf<SQL<number[]>>()
+      expectTypeOf(
+        jsonPathQuery(jsonObject, (root) => root.items.tags),
+      ).toEqualTypeOf<SQL<string[][]>>()
+      expectTypeOf(
+        jsonPathQuery(jsonObject, (root) =>
+          root.items.$filter((item) => item.price.$gt(1)),
+        ),
+      ).toEqualTypeOf<SQL<JsonType['items'][number][]>>()
+      expectTypeOf(
+        jsonPathQueryFirst(
+          jsonObject,
+          (root) => root.user.emails.$at(0).address,
+        ),
+      ).toEqualTypeOf<SQL<string | null>>()
+      expectTypeOf(
+        jsonPathQuery(table.arraycolNullable, (root) => root.$each.name),
+      ).toEqualTypeOf<SQL<string[] | null>>()
+      expectTypeOf(
+        jsonPathExists(jsonObject, (root) => root.user),
+      ).toEqualTypeOf<SQL<boolean>>()
+    })
+
+    it('restricts operations to compatible items', () => {
+      jsonPathMatch(jsonObject, (root) =>
+        // @ts-expect-error - comparing a number with a string
+        root.user.age.$eq('30'),
+      )
+      jsonPathMatch(jsonObject, (root) =>
+        // @ts-expect-error - regex on a number
+        root.user.age.$likeRegex('3'),
+      )
+      jsonPathMatch(jsonObject, (root) =>
+        // @ts-expect-error - comparing objects
+        root.user.$eq(null),
+      )
+      jsonPathQuery(
+        jsonObject,
+        // @ts-expect-error - unknown member
+        (root) => root.user.unknown,
+      )
+      jsonPathMatch(
+        jsonObject,
+        // @ts-expect-error - unknown variable
+        (root, vars) => root.user.age.$eq(vars.missing),
+        { min: 1 },
+      )
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { jsonAccess } from '../../src/json/operations/access.ts'
+import {
+  jsonContainedBy,
+  jsonContains,
+  jsonHasAllKeys,
+  jsonHasAnyKeys,
+  jsonHasKey,
+} from '../../src/json/operations/predicate.ts'
+import { dialect, table } from '../utils.ts'
+
+describe('JSON Predicates', () => {
+  type JsonType = {
+    user: {
+      name: string
+      roles: string[]
+      settings?: { theme: 'light' | 'dark'; beta: boolean }
+    }
+    tags: string[]
+    metadata: Record<string, any>
+  }
+
+  const jsonObjectSql = `'{"user": {"name": "John", "roles": ["admin"], "settings": {"theme": "dark", "beta": true}}, "tags": ["a", "b"], "metadata": {}}'::jsonb`
+  const jsonObject = sql<JsonType>`${sql.raw(jsonObjectSql)}`
+
+  describe('jsonContains', () => {
+    it('builds containment from a partial object', () => {
+      const result = jsonContains(jsonObject, {
+        user: { settings: { theme: 'dark' } },
+      })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"dark"'])
+      expect(query.sql).toBe(
+        `${jsonObjectSql} @> jsonb_build_object('user', jsonb_build_object('settings', jsonb_build_object('theme', $1::jsonb)))`,
+      )
+    })
+
+    it('accepts SQL expressions', () => {
+      const result = jsonContains(
+        table.arraycol,
+        sql<Array<{ id: number }>>`'[{"id": 1}]'::jsonb`,
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`"test"."arraycol" @> '[{"id": 1}]'::jsonb`)
+    })
+
+    it('accepts partial array elements', () => {
+      const result = jsonContains(table.arraycol, [{ id: 1 }])
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['1'])
+      expect(query.sql).toBe(
+        `"test"."arraycol" @> jsonb_build_array(jsonb_build_object('id', $1::jsonb))`,
+      )
+    })
+
+    it('has correct types', () => {
+      expectTypeOf(jsonContains(jsonObject, { tags: ['a'] })).toEqualTypeOf<
+        SQL<boolean>
+      >()
+      // @ts-expect-error - unknown property
+      jsonContains(jsonObject, { unknown: true })
+      // @ts-expect-error - wrong leaf type
+      jsonContains(jsonObject, { user: { name: 1 } })
+    })
+  })
+
+  describe('jsonContainedBy', () => {
+    it('builds reverse containment', () => {
+      const result = jsonContainedBy(jsonObject, sql<JsonType>`'{}'::jsonb`)
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`${jsonObjectSql} <@ '{}'::jsonb`)
+    })
+  })
+
+  describe('Key Existence', () => {
+    it('checks a single key', () => {
+      const query = dialect.sqlToQuery(jsonHasKey(jsonObject, 'user'))
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`${jsonObjectSql} ? 'user'`)
+    })
+
+    it('checks any of the keys', () => {
+      const query = dialect.sqlToQuery(
+        jsonHasAnyKeys(jsonObject, ['tags', 'metadata']),
+      )
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `${jsonObjectSql} ?| array['tags','metadata']::text[]`,
+      )
+    })
+
+    it('checks all of the keys', () => {
+      const query = dialect.sqlToQuery(jsonHasAllKeys(table.jsoncol, ['some']))
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`"test"."jsoncol" ?& array['some']::text[]`)
+    })
+
+    it('restricts keys to the target type', () => {
+      // @ts-expect-error - unknown key
+      jsonHasKey(jsonObject, 'unknown')
+      // @ts-expect-error - arrays of objects have no keys
+      jsonHasKey(table.arraycol, 'id')
+    })
+  })
+
+  describe('Accessor Predicates', () => {
+    it('rewrites nested containment to the source', () => {
+      const accessor = jsonAccess(jsonObject)
+      const query = dialect.sqlToQuery(
+        accessor.user.settings.$contains({ beta: true }),
+      )
+
+      expect(query.params).toEqual(['true'])
+      expect(query.sql).toBe(
+        `${jsonObjectSql} @> jsonb_build_object('user', jsonb_build_object('settings', jsonb_build_object('beta', $1::jsonb)))`,
+      )
+    })
+
+    it('uses the extracted value for paths with indices', () => {
+      const accessor = jsonAccess(table.arraycol)
+      const query = dialect.sqlToQuery(accessor[0].$contains({ id: 1 }))
+
+      expect(query.params).toEqual(['1'])
+      expect(query.sql).toBe(
+        `coalesce("test"."arraycol" -> 0, "test"."arraycol" -> '0') @> jsonb_build_object('id', $1::jsonb)`,
+      )
+    })
+
+    it('checks keys on nested values', () => {
+      const accessor = jsonAccess(jsonObject)
+
+      expect(dialect.sqlToQuery(accessor.user.$hasKey('settings')).sql).toBe(
+        `jsonb_extract_path(${jsonObjectSql}, 'user') ? 'settings'`,
+      )
+      expect(
+        dialect.sqlToQuery(accessor.user.roles.$hasAnyKeys(['admin', 'owner']))
+          .sql,
+      ).toBe(
+        `jsonb_extract_path(${jsonObjectSql}, 'user','roles') ?| array['admin','owner']::text[]`,
+      )
+      expect(
+        dialect.sqlToQuery(accessor.metadata.$hasAllKeys(['a', 'b'])).sql,
+      ).toBe(
+        `jsonb_extract_path(${jsonObjectSql}, 'metadata') ?& array['a','b']::text[]`,
+      )
+      expect(
+        dialect.sqlToQuery(accessor.tags.$containedBy(['a', 'b', 'c'])).sql,
+      ).toBe(
+        `jsonb_extract_path(${jsonObjectSql}, 'tags') <@ jsonb_build_array($1::jsonb,$2::jsonb,$3::jsonb)`,
+      )
+    })
+
+    it('only exposes key checks on objects and string arrays', () => {
+      const accessor = jsonAccess(jsonObject)
+
+      expectTypeOf(accessor.user.name).toHaveProperty('$contains')
+      expectTypeOf(accessor.user.name).not.toHaveProperty('$hasKey')
+      expectTypeOf(accessor.user).toHaveProperty('$hasKey')
+      expectTypeOf(accessor.tags).toHaveProperty('$hasAnyKeys')
+      expectTypeOf(jsonAccess(table.arraycol)).not.toHaveProperty('$hasKey')
+      expectTypeOf(accessor.user.$hasKey)
+        .parameter(0)
+        .toEqualTypeOf<'name' | 'roles' | 'settings'>()
+    })
+  })
+})
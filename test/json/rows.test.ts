@@ -0,0 +1,170 @@
+import { eq, type SQL, sql } from 'drizzle-orm'
+import { integer, numeric, QueryBuilder, text } from 'drizzle-orm/pg-core'
+import type { Temporal } from 'temporal-polyfill'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  jsonArrayElements,
+  jsonEach,
+  jsonToRecord,
+  jsonToRecordset,
+} from '../../src/json/operations/rows.ts'
+import { plainDate } from '../../src/temporal/polyfill.ts'
+import { table } from '../utils.ts'
+
+describe('JSON Rows', () => {
+  const qb = new QueryBuilder()
+  const orEmpty = (source: string, empty: string) =>
+    `json_query(coalesce(${source}, 'null'::jsonb), 'strict $ ? (@ != null)' default '${empty}'::jsonb on empty)::jsonb`
+
+  describe('jsonArrayElements', () => {
+    it('selects from array elements', () => {
+      const tags = jsonArrayElements(sql<string[]>`'["a", "b"]'::jsonb`, 'tag')
+      const select = qb.select().from(tags)
+      const query = select.toSQL()
+
+      expect(query.sql).toBe(
+        `select "tag"."value", "tag"."ordinality" from (select * from jsonb_array_elements(${orEmpty(`'["a", "b"]'::jsonb`, '[]')}) with ordinality) "tag"`,
+      )
+      expectTypeOf(tags.value).toEqualTypeOf<SQL<string>>()
+      expectTypeOf(tags.ordinality).toEqualTypeOf<SQL<number>>()
+      expectTypeOf<(typeof select)['_']['result']>().toEqualTypeOf<
+        Array<{ value: string; ordinality: number }>
+      >()
+    })
+
+    it('joins laterally', () => {
+      const items = jsonArrayElements(table.arraycolNullable, 'item')
+      const query = qb
+        .select({ name: table.jsoncol, item: items.value })
+        .from(table)
+        .leftJoinLateral(items, sql`true`)
+        .where(eq(items.ordinality, 1))
+        .toSQL()
+
+      expect(query.sql).toBe(
+        `select "test"."jsoncol", "item"."value" from "test" left join lateral (select * from jsonb_array_elements(${orEmpty('"test"."arraycolNullable"', '[]')}) with ordinality) "item" on true where "item"."ordinality" = $1`,
+      )
+      expectTypeOf(items.value).toEqualTypeOf<
+        SQL<{ id: number; name: string }>
+      >()
+    })
+  })
+
+  describe('jsonEach', () => {
+    it('selects object members', () => {
+      const members = jsonEach(table.jsoncolNullable, 'member')
+      const query = qb.select().from(members).toSQL()
+
+      expect(query.sql).toBe(
+        `select "member"."key", "member"."value" from (select * from jsonb_each(${orEmpty('"test"."jsoncolNullable"', '{}')})) "member"`,
+      )
+      expectTypeOf(members.key).toEqualTypeOf<SQL<'some'>>()
+      expectTypeOf(members.value).toEqualTypeOf<SQL<'json'>>()
+    })
+  })
+
+  describe('jsonToRecordset', () => {
+    it('selects columns from builders', () => {
+      const items = jsonToRecordset(table.arraycol, 'item', {
+        id: integer().notNull(),
+        name: text(),
+        price: numeric(),
+      })
+      const query = qb.select().from(items).toSQL()
+
+      expect(query.sql).toBe(
+        `select "id", "name", "price" from (select * from jsonb_to_recordset(${orEmpty('"test"."arraycol"', '[]')}) as "item"("id" integer, "name" text, "price" numeric)) "item"`,
+      )
+      expectTypeOf(qb.select().from(items))
+        .toHaveProperty('_')
+        .toHaveProperty('result')
+        .toEqualTypeOf<
+          Array<{ id: number; name: string | null; price: string | null }>
+        >()
+    })
+
+    it('types fields from the builder instead of the element', () => {
+      const items = jsonToRecordset(
+        sql<Array<{ n: number }>>`'[]'::jsonb`,
+        'item',
+        { n: numeric(), count: numeric({ mode: 'number' }).notNull() },
+      )
+
+      expectTypeOf(qb.select().from(items))
+        .toHaveProperty('_')
+        .toHaveProperty('result')
+        .toEqualTypeOf<Array<{ n: string | null; count: number }>>()
+      expect(items.count.mapFromDriverValue('1.5')).toBe(1.5)
+    })
+
+    it('rejects empty column maps', () => {
+      expect(() => jsonToRecordset(table.arraycol, 'item', {})).toThrow(
+        'jsonToRecordset requires at least one column',
+      )
+    })
+  })
+
+  describe('jsonToRecord', () => {
+    it('extracts columns from builders', () => {
+      const profile = jsonToRecord(table.jsoncolNullable, 'profile', {
+        age: integer().notNull(),
+        city: text(),
+        birthday: plainDate.column('birth_date'),
+      })
+      const select = qb
+        .select({ data: table.jsoncol, age: profile.age })
+        .from(table)
+        .crossJoinLateral(profile)
+        .where(eq(profile.birthday, sql`current_date`))
+
+      expect(select.toSQL().sql).toBe(
+        `select "test"."jsoncol", "profile"."age" from "test" cross join lateral (select * from jsonb_to_record(${orEmpty('"test"."jsoncolNullable"', '{}')}) as "profile"("age" integer, "city" text, "birth_date" date)) "profile" where "profile"."birth_date" = current_date`,
+      )
+      expectTypeOf<(typeof select)['_']['result']>().toEqualTypeOf<
+        Array<{ data: { some: 'json' }; age: number }>
+      >()
+      expectTypeOf(qb.select().from(profile))
+        .toHaveProperty('_')
+        .toHaveProperty('result')
+        .toEqualTypeOf<
+          Array<{
+            age: number
+            city: string | null
+            birthday: Temporal.PlainDate | null
+          }>
+        >()
+    })
+
+    it('keeps the columns of row sources sharing an alias', () => {
+      const first = jsonToRecord(table.jsoncol, 'profile', { age: integer() })
+      const second = jsonToRecord(table.jsoncol, 'profile', { city: text() })
+
+      expect(qb.select({ age: first.age }).from(first).toSQL().sql).toMatch(
+        /^select "age" from/,
+      )
+      expect(qb.select({ city: second.city }).from(second).toSQL().sql).toMatch(
+        /^select "city" from/,
+      )
+    })
+
+    it('keeps JSON keys as column names with a casing', () => {
+      const profile = jsonToRecord(table.jsoncol, 'profile', {
+        birthYear: integer(),
+      })
+      const query = new QueryBuilder({ casing: 'snake_case' })
+        .select({ year: profile.birthYear })
+        .from(profile)
+        .toSQL()
+
+      expect(query.sql).toMatch(
+        /^select "birthYear" from .*\("birthYear" integer\)/,
+      )
+    })
+
+    it('rejects empty column maps', () => {
+      expect(() => jsonToRecord(table.jsoncol, 'profile', {})).toThrow(
+        'jsonToRecord requires at least one column',
+      )
+    })
+  })
+})
@@ -0,0 +1,283 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { getTableConfig, jsonb, pgTable } from 'drizzle-orm/pg-core'
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { jsonAccess } from '../../src/json/operations/access.ts'
+import {
+  jsonSchemaConstraints,
+  type SQLJSONSchemaDefinition,
+  type StandardSchemaV1,
+  typedJsonb,
+} from '../../src/json/operations/schema.ts'
+import { dialect } from '../utils.ts'
+
+describe('JSON Schema', () => {
+  type Profile = { name: string; age?: number }
+
+  // Strips unknown keys, like a zod object
+  const Profile: StandardSchemaV1<Profile> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const { name, age } = (value ?? {}) as Record<string, unknown>
+        if (typeof name !== 'string')
+          return { issues: [{ message: 'Expected string', path: ['name'] }] }
+        return { value: age === undefined ? { name } : { name, age: +age! } }
+      },
+    },
+  }
+
+  const users = pgTable('users', {
+    profile: typedJsonb('profile', Profile).notNull(),
+    stripped: typedJsonb('stripped', Profile, { mode: 'strip' }),
+  })
+
+  describe('typedJsonb', () => {
+    it('types the column from the schema output', () => {
+      expect(users.profile.getSQLType()).toBe('jsonb')
+      expectTypeOf(users.$inferSelect).toEqualTypeOf<{
+        profile: Profile
+        stripped: Profile | null
+      }>()
+      expectTypeOf(jsonAccess(users.profile).name.$value).toEqualTypeOf<
+        SQL<string>
+      >()
+    })
+
+    it('validates values read and written', () => {
+      const value = { name: 'Jane', extra: true }
+
+      expect(users.profile.mapFromDriverValue(value)).toBe(value)
+      expect(users.profile.mapFromDriverValue('{"name": "Jane"}')).toEqual({
+        name: 'Jane',
+      })
+      expect(users.profile.mapToDriverValue(value)).toBe(JSON.stringify(value))
+      expect(() => users.profile.mapFromDriverValue({ name: 1 })).toThrow(
+        'Invalid JSON read from the database: name: Expected string',
+      )
+      expect(() =>
+        users.profile.mapToDriverValue({ age: 1 } as unknown as Profile),
+      ).toThrow('Invalid JSON written to the database: name: Expected string')
+    })
+
+    it('writes SQL expressions unchecked', () => {
+      const value = sql`'{}'::jsonb`
+
+      expect(users.profile.mapToDriverValue(value as any)).toBe(value)
+    })
+
+    it('replaces valid values by the schema output in strip mode', () => {
+      expect(
+        users.stripped.mapFromDriverValue({ name: 'Jane', extra: true }),
+      ).toEqual({ name: 'Jane' })
+      expect(users.stripped.mapToDriverValue({ name: 'Jane', age: 3 })).toBe(
+        '{"name":"Jane","age":3}',
+      )
+      expect(() => users.stripped.mapFromDriverValue(null)).toThrow(
+        'Expected string',
+      )
+    })
+
+    it('reports invalid values in log mode', () => {
+      const log = vi.fn()
+      const column = pgTable('users', {
+        profile: typedJsonb('profile', Profile, { mode: 'log', log }),
+      }).profile
+
+      expect(column.mapFromDriverValue({ name: 1 })).toEqual({ name: 1 })
+      expect(log).toHaveBeenCalledWith(
+        'Invalid JSON read from the database: name: Expected string',
+        [{ message: 'Expected string', path: ['name'] }],
+      )
+    })
+
+    it('rejects asynchronous schemas', () => {
+      const column = pgTable('users', {
+        profile: typedJsonb('profile', {
+          '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: async (value: unknown) => ({ value }),
+          },
+        }),
+      }).profile
+
+      expect(() => column.mapFromDriverValue({})).toThrow(
+        'typedJsonb requires a synchronous schema',
+      )
+    })
+  })
+
+  describe('jsonSchemaConstraints', () => {
+    const checks = (schema: Parameters<typeof jsonSchemaConstraints>[1]) =>
+      getTableConfig(
+        pgTable('users', { profile: jsonb('profile') }, (table) =>
+          jsonSchemaConstraints(table.profile, schema),
+        ),
+      ).checks.map((check) => [check.name, dialect.sqlToQuery(check.value)])
+
+    it('checks types, required keys and additional properties', () => {
+      expect(
+        checks({
+          type: 'object',
+          required: ['name'],
+          additionalProperties: false,
+          properties: { name: { type: 'string' } },
+        }),
+      ).toEqual([
+        [
+          'check_profile_schema_type',
+          { sql: `jsonb_typeof("users"."profile") in ('object')`, params: [] },
+        ],
+        [
+          'check_profile_schema_required',
+          {
+            sql: `case when jsonb_typeof("users"."profile") = 'object' then "users"."profile" ?& array['name']::text[] end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_additionalProperties',
+          {
+            sql: `case when jsonb_typeof("users"."profile") = 'object' then ("users"."profile" - array['name']::text[]) = '{}'::jsonb end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_name/type',
+          {
+            sql: `jsonb_typeof(jsonb_extract_path("users"."profile", 'name')) in ('string')`,
+            params: [],
+          },
+        ],
+      ])
+    })
+
+    it('checks integers, enums and ranges', () => {
+      const age = `jsonb_extract_path("users"."profile", 'age')`
+
+      expect(
+        checks({
+          properties: {
+            age: { type: ['integer', 'null'], exclusiveMaximum: 150 },
+            role: { enum: ['admin', "o'neil"] },
+          },
+        }),
+      ).toEqual([
+        [
+          'check_profile_schema_age/type',
+          {
+            sql: `jsonb_typeof(${age}) in ('null') or case when jsonb_typeof(${age}) = 'number' then (${age})::numeric % 1 = 0 else false end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_age/exclusiveMaximum',
+          {
+            sql: `case when jsonb_typeof(${age}) = 'number' then (${age})::numeric < 150 end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_role/enum',
+          {
+            sql: `jsonb_extract_path("users"."profile", 'role') in ('"admin"'::jsonb, '"o''neil"'::jsonb)`,
+            params: [],
+          },
+        ],
+      ])
+    })
+
+    it('checks strings and array items with jsonpath', () => {
+      const tags = `jsonb_extract_path("users"."profile", 'tags')`
+
+      expect(
+        checks({
+          properties: {
+            tags: {
+              minItems: 1,
+              items: { type: 'string', maxLength: 10 },
+            },
+          },
+          allOf: [{ pattern: '^\\w' }],
+        }),
+      ).toEqual([
+        [
+          'check_profile_schema_tags/minItems',
+          {
+            sql: `case when jsonb_typeof(${tags}) = 'array' then jsonb_array_length(${tags}) >= 1 end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_tags/items_type',
+          {
+            sql: `case when jsonb_typeof(${tags}) = 'array' then not (${tags} @? 'strict $[*] ? (!(@.type() == "string"))'::jsonpath) end`,
+            params: [],
+          },
+        ],
+        [
+          'check_profile_schema_pattern',
+          {
+            sql: `case when jsonb_typeof("users"."profile") = 'string' then ("users"."profile" #>> '{}') ~ '^\\w' end`,
+            params: [],
+          },
+        ],
+      ])
+    })
+
+    it('keeps names of nested checks distinct', () => {
+      const names = checks({
+        type: 'object',
+        properties: {
+          a_b: { type: 'string' },
+          a: { properties: { b: { type: 'string' } } },
+          'a/b~c': { type: 'string' },
+          preferences: {
+            properties: {
+              notifications: {
+                properties: { reminderFrequency: { type: 'string' } },
+              },
+            },
+          },
+        },
+        allOf: [{ type: 'object' }],
+      }).map(([name]) => name)
+
+      expect(names).toEqual([
+        'check_profile_schema_type',
+        'check_profile_schema_a_b/type',
+        'check_profile_schema_a/b/type',
+        'check_profile_schema_a~1b~0c/type',
+        'check_profile_schema_preferences/notifications/reminde_7f19a98d',
+        'check_profile_schema_type_2',
+      ])
+      expect(names[4]).toHaveLength(63)
+    })
+
+    it('reads the JSON Schema of a Standard Schema', () => {
+      const target = vi.fn(
+        (): SQLJSONSchemaDefinition => ({ type: 'array', maxItems: 2 }),
+      )
+      const names = checks({
+        '~standard': { jsonSchema: { input: target } },
+      }).map(([name]) => name)
+
+      expect(target).toHaveBeenCalledWith({ target: 'draft-2020-12' })
+      expect(names).toEqual([
+        'check_profile_schema_type',
+        'check_profile_schema_maxItems',
+      ])
+    })
+
+    it('uses the given name prefix', () => {
+      const [check] = getTableConfig(
+        pgTable('users', { profile: jsonb('profile') }, (table) =>
+          jsonSchemaConstraints(table.profile, { type: 'object' }, 'profile'),
+        ),
+      ).checks
+
+      expect(check!.name).toBe('profile_type')
+    })
+  })
+})
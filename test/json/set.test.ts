@@ -1,11 +1,15 @@
 import { type SQL, sql } from 'drizzle-orm'
 
 import { describe, expect, expectTypeOf, it } from 'vitest'
+import { jsonArrayPush } from '../../src/json/operations/array.ts'
 import {
   jsonSet,
   jsonSetPipe,
+  type SQLJSONDeleteFn,
   type SQLJSONSet,
   type SQLJSONSetFn,
+  type SQLJSONSetMutators,
+  type SQLJSONUpdateFn,
 } from '../../src/json/operations/set.ts'
 import { dialect, table } from '../utils.ts'
 
@@ -292,9 +296,12 @@ describe('JSON Set', () => {
       const setter = jsonSet(jsonObject)
 
       // Test that setter functions exist and have callable types
-      expectTypeOf(setter.name).toEqualTypeOf<{
-        $set: SQLJSONSetFn<string, SQL<JsonType>>
-      }>()
+      expectTypeOf(setter.name).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<string, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<string, SQL<JsonType>>
+        } & SQLJSONSetMutators<string, SQL<JsonType>>
+      >()
       expectTypeOf(setter.profile).toEqualTypeOf<
         SQLJSONSet<SQL<JsonType>, SQL<JsonType['profile']>, false>
       >()
@@ -306,16 +313,22 @@ describe('JSON Set', () => {
       >()
     })
 
-    it('restricts primitive types to only have $set method', () => {
+    it('restricts primitive types to leaf setters', () => {
       const setter = jsonSet(jsonObject)
 
       // Type-level checks for primitive properties
-      expectTypeOf(setter.name).toEqualTypeOf<{
-        $set: SQLJSONSetFn<string, SQL<JsonType>>
-      }>()
-      expectTypeOf(setter.id).toEqualTypeOf<{
-        $set: SQLJSONSetFn<number, SQL<JsonType>>
-      }>()
+      expectTypeOf(setter.name).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<string, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<string, SQL<JsonType>>
+        } & SQLJSONSetMutators<string, SQL<JsonType>>
+      >()
+      expectTypeOf(setter.id).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<number, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<number, SQL<JsonType>>
+        } & SQLJSONSetMutators<number, SQL<JsonType>>
+      >()
 
       // Ensure primitive types don't have nested property access
       expectTypeOf(setter.name).not.toHaveProperty('nonExistentProperty')
@@ -343,21 +356,36 @@ describe('JSON Set', () => {
       expectTypeOf(setter.tags).toHaveProperty('$set')
 
       // Arrays should allow numeric string access
-      expectTypeOf(setter.tags['0']).toEqualTypeOf<{
-        $set: SQLJSONSetFn<string, SQL<JsonType>>
-      }>()
-      expectTypeOf(setter.tags['1']).toEqualTypeOf<{
-        $set: SQLJSONSetFn<string, SQL<JsonType>>
-      }>()
+      expectTypeOf(setter.tags['0']).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<string, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<string | null, SQL<JsonType>>
+        } & SQLJSONSetMutators<string, SQL<JsonType>> & {
+            $delete: SQLJSONDeleteFn<SQL<JsonType>>
+          }
+      >()
+      expectTypeOf(setter.tags['1']).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<string, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<string | null, SQL<JsonType>>
+        } & SQLJSONSetMutators<string, SQL<JsonType>> & {
+            $delete: SQLJSONDeleteFn<SQL<JsonType>>
+          }
+      >()
     })
 
     it('restricts array elements based on their type', () => {
       const setter = jsonSet(jsonObject)
 
-      // Array of strings should only have $set
-      expectTypeOf(setter.tags['0']).toEqualTypeOf<{
-        $set: SQLJSONSetFn<string, SQL<JsonType>>
-      }>()
+      // Array of strings should only have leaf setters and $delete
+      expectTypeOf(setter.tags['0']).toEqualTypeOf<
+        {
+          $set: SQLJSONSetFn<string, SQL<JsonType>>
+          $update: SQLJSONUpdateFn<string | null, SQL<JsonType>>
+        } & SQLJSONSetMutators<string, SQL<JsonType>> & {
+            $delete: SQLJSONDeleteFn<SQL<JsonType>>
+          }
+      >()
 
       // Array of objects should have property access
       expectTypeOf(setter.optionalArray['0']).toHaveProperty('$set')
@@ -538,6 +566,334 @@ describe('JSON Set', () => {
     })
   })
 
+  describe('Delete', () => {
+    it('deletes optional properties', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(setter.optionalObject.key.$delete())
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        `${jsonObjectSql} #- array['optionalObject','key']::text[]`,
+      )
+    })
+
+    it('deletes array elements', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(setter.tags[-1].$delete())
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(`${jsonObjectSql} #- array['tags','-1']::text[]`)
+    })
+
+    it('deletes record entries', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(setter.metadata.someKey.$delete())
+
+      expect(query.sql).toBe(
+        `${jsonObjectSql} #- array['metadata','someKey']::text[]`,
+      )
+    })
+
+    it('composes in a pipeline', () => {
+      const result = jsonSetPipe(
+        jsonObject,
+        (setter) => setter.optionalArray.$delete(),
+        (setter) => setter.name.$set('Jane'),
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"Jane"'])
+      expect(query.sql).toBe(
+        `jsonb_set(coalesce(${jsonObjectSql}, 'null'::jsonb) #- array['optionalArray']::text[], array['name']::text[], $1::jsonb, true)`,
+      )
+    })
+
+    it('is only available on optional properties and array elements', () => {
+      const setter = jsonSet(jsonObject)
+
+      expectTypeOf(setter.optionalObject.$delete).toEqualTypeOf<
+        SQLJSONDeleteFn<SQL<JsonType>>
+      >()
+      expectTypeOf(setter.optionalArray[0].key).toHaveProperty('$delete')
+      expectTypeOf(setter.optionalArray[0]).toHaveProperty('$delete')
+      expectTypeOf(setter).not.toHaveProperty('$delete')
+      expectTypeOf(setter.name).not.toHaveProperty('$delete')
+      expectTypeOf(setter.profile).not.toHaveProperty('$delete')
+      expectTypeOf(setter.profile.settings.theme).not.toHaveProperty('$delete')
+    })
+  })
+
+  describe('Update', () => {
+    const bound = (source: string, expression: string) =>
+      `(select ${expression} from (select ${source}) as input(doc))`
+
+    it('passes the current value to the updater', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(
+        setter.id.$update((current) => sql`${current}::int + 1`),
+      )
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        bound(
+          jsonObjectSql,
+          `jsonb_set(input.doc, array['id']::text[], coalesce(to_jsonb(jsonb_extract_path(input.doc, 'id')::int + 1), 'null'::jsonb), true)`,
+        ),
+      )
+    })
+
+    it('passes an accessor of the current value', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(
+        setter.profile.$update((_, profile) => ({
+          avatar: profile.avatar.$path,
+          settings: { theme: 'light', notifications: false },
+        })),
+      )
+
+      expect(query.params).toEqual(['"light"', 'false'])
+      expect(query.sql).toBe(
+        bound(
+          jsonObjectSql,
+          `jsonb_set(input.doc, array['profile']::text[], jsonb_build_object('avatar', jsonb_extract_path(jsonb_extract_path(input.doc, 'profile'), 'avatar'),'settings', jsonb_build_object('theme', $1::jsonb,'notifications', $2::jsonb)), true)`,
+        ),
+      )
+    })
+
+    it('reads the current value from the previous operation in a pipeline', () => {
+      const result = jsonSetPipe(
+        jsonObject,
+        (setter) => setter.name.$set('Jane'),
+        (setter) => setter.name.$update((name) => sql`${name} || 'x'::jsonb`),
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"Jane"'])
+      expect(query.sql).toBe(
+        bound(
+          `jsonb_set(coalesce(${jsonObjectSql}, 'null'::jsonb), array['name']::text[], $1::jsonb, true)`,
+          `jsonb_set(input.doc, array['name']::text[], coalesce(to_jsonb(jsonb_extract_path(input.doc, 'name') || 'x'::jsonb), 'null'::jsonb), true)`,
+        ),
+      )
+    })
+
+    it('renders the source once per piped update', () => {
+      const update = (setter: SQLJSONSet<SQL<JsonType>, SQL<JsonType>, true>) =>
+        setter.name.$update((name) => sql`${name} || 'x'::jsonb`)
+      const single = dialect.sqlToQuery(jsonSetPipe(jsonObject, update)).sql
+      const piped = dialect.sqlToQuery(
+        jsonSetPipe(jsonObject, update, update, update, update),
+      ).sql
+
+      expect(piped.split(jsonObjectSql)).toHaveLength(2)
+      expect(piped.length).toBeLessThan(single.length * 4)
+    })
+
+    it('types the current value from the path', () => {
+      const setter = jsonSet(jsonObject)
+
+      expectTypeOf(setter.id.$update).toEqualTypeOf<
+        SQLJSONUpdateFn<number, SQL<JsonType>>
+      >()
+      setter.optionalObject.key.$update((current) => {
+        expectTypeOf(current).toEqualTypeOf<SQL<string | null | undefined>>()
+        return 'value'
+      })
+      // @ts-expect-error the new value must match the leaf type
+      setter.name.$update(() => 1)
+      expectTypeOf(setter).not.toHaveProperty('$update')
+    })
+  })
+
+  describe('Mutators', () => {
+    const text = (path: string) =>
+      `(jsonb_extract_path(input.doc, ${path}) #>> '{}')`
+    const update = (path: string, value: string) =>
+      `(select jsonb_set(input.doc, array[${path}]::text[], coalesce(to_jsonb(${value}), 'null'::jsonb), true) from (select ${jsonObjectSql}) as input(doc))`
+
+    it('increments and decrements numbers', () => {
+      const setter = jsonSet(jsonObject)
+
+      expect(dialect.sqlToQuery(setter.id.$increment())).toMatchObject({
+        sql: update(`'id'`, `coalesce((${text(`'id'`)})::numeric, 0) + $1`),
+        params: [1],
+      })
+      expect(dialect.sqlToQuery(setter.id.$decrement(sql`2`)).sql).toBe(
+        update(`'id'`, `coalesce((${text(`'id'`)})::numeric, 0) - 2`),
+      )
+    })
+
+    it('toggles booleans and concatenates strings', () => {
+      const setter = jsonSet(jsonObject)
+      const notifications = `'profile','settings','notifications'`
+
+      expect(
+        dialect.sqlToQuery(setter.profile.settings.notifications.$toggle()).sql,
+      ).toBe(
+        update(
+          notifications,
+          `not coalesce((${text(notifications)})::boolean, false)`,
+        ),
+      )
+      expect(dialect.sqlToQuery(setter.name.$concat(' Jr.'))).toMatchObject({
+        sql: update(`'name'`, `coalesce(${text(`'name'`)}, '') || $1`),
+        params: [' Jr.'],
+      })
+    })
+
+    it('pushes to arrays', () => {
+      const setter = jsonSet(jsonObject)
+
+      const pushed = jsonArrayPush(
+        sql<string[]>`jsonb_extract_path(input.doc, 'tags')`,
+        'a',
+        'b',
+      )
+
+      expect(dialect.sqlToQuery(setter.tags.$push('a', 'b'))).toMatchObject({
+        sql: update(`'tags'`, dialect.sqlToQuery(pushed).sql),
+        params: ['"a"', '"b"'],
+      })
+    })
+
+    it('render the source once when piped', () => {
+      const increments = Array.from(
+        { length: 8 },
+        () => (setter: SQLJSONSet<SQL<JsonType>, SQL<JsonType>, true>) =>
+          setter.id.$increment(),
+      )
+      const single = dialect.sqlToQuery(jsonSetPipe(jsonObject, increments[0]!))
+      const piped = dialect.sqlToQuery(
+        jsonSetPipe(jsonObject, increments[0]!, ...increments.slice(1)),
+      )
+
+      expect(piped.params).toEqual(Array(8).fill(1))
+      expect(piped.sql.split(jsonObjectSql)).toHaveLength(2)
+      expect(piped.sql.length).toBeLessThan(single.sql.length * 8)
+    })
+
+    it('are only available on leaves of the matching type', () => {
+      const setter = jsonSet(jsonObject)
+
+      expectTypeOf(setter.id).toHaveProperty('$increment')
+      expectTypeOf(setter.id).toHaveProperty('$decrement')
+      expectTypeOf(setter.id).not.toHaveProperty('$concat')
+      expectTypeOf(setter.name).toHaveProperty('$concat')
+      expectTypeOf(setter.name).not.toHaveProperty('$increment')
+      expectTypeOf(setter.profile.settings.notifications).toHaveProperty(
+        '$toggle',
+      )
+      expectTypeOf(setter.tags).toHaveProperty('$push')
+      expectTypeOf(setter.optionalArray).toHaveProperty('$push')
+      expectTypeOf(setter.profile).not.toHaveProperty('$push')
+      // Literal unions would not hold the result
+      expectTypeOf(setter.profile.settings.theme).not.toHaveProperty('$concat')
+      expectTypeOf(setter).not.toHaveProperty('$push')
+      // @ts-expect-error the pushed values must match the element type
+      setter.tags.$push(1)
+    })
+  })
+
+  describe('Merge', () => {
+    const object = (value: string) =>
+      `coalesce(jsonb_path_query_first(${value}, 'strict $ ? (@.type() == "object")'), '{}'::jsonb)`
+    const bound = (expression: string) =>
+      `(select ${expression} from (select ${jsonObjectSql}) as input(doc))`
+
+    it('shallow merges into a nested object', () => {
+      const setter = jsonSet(jsonObject)
+      const result = setter.profile.settings.$merge({ theme: 'light' })
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual(['"light"'])
+      expect(query.sql).toBe(
+        bound(
+          `jsonb_set(input.doc, array['profile','settings']::text[], ${object(`jsonb_extract_path(input.doc, 'profile','settings')`)} || jsonb_build_object('theme', $1::jsonb), true)`,
+        ),
+      )
+    })
+
+    it('deep merges nested plain objects', () => {
+      const setter = jsonSet(jsonObject)
+      const result = setter.profile.$merge(
+        { settings: { notifications: false } },
+        { deep: true },
+      )
+      const query = dialect.sqlToQuery(result)
+      const profile = `jsonb_extract_path(input.doc, 'profile')`
+
+      expect(query.params).toEqual(['false'])
+      expect(query.sql).toBe(
+        bound(
+          `jsonb_set(input.doc, array['profile']::text[], ${object(profile)} || jsonb_build_object('settings', ${object(`jsonb_extract_path(${profile}, 'settings')`)} || jsonb_build_object('notifications', $1::jsonb)), true)`,
+        ),
+      )
+    })
+
+    it('merges at the root level', () => {
+      const setter = jsonSet(jsonObject)
+      const query = dialect.sqlToQuery(setter.$merge({ name: 'Jane' }))
+
+      expect(query.params).toEqual(['"Jane"'])
+      expect(query.sql).toBe(
+        bound(
+          `${object('input.doc')} || jsonb_build_object('name', $1::jsonb)`,
+        ),
+      )
+    })
+
+    it('merges SQL expressions', () => {
+      const setter = jsonSet(jsonObject)
+      const result = setter.metadata.$merge(
+        sql<Record<string, any>>`'{"a": 1}'::jsonb`,
+        { deep: true },
+      )
+      const query = dialect.sqlToQuery(result)
+
+      expect(query.params).toEqual([])
+      expect(query.sql).toBe(
+        bound(
+          `jsonb_set(input.doc, array['metadata']::text[], ${object(`jsonb_extract_path(input.doc, 'metadata')`)} || '{"a": 1}'::jsonb, true)`,
+        ),
+      )
+    })
+
+    it('renders the source once when piped', () => {
+      const merges = Array.from(
+        { length: 8 },
+        () => (setter: SQLJSONSet<SQL<JsonType>, SQL<JsonType>, true>) =>
+          setter.profile.$merge(
+            { settings: { theme: 'dark' } },
+            { deep: true },
+          ),
+      )
+      const single = dialect.sqlToQuery(jsonSetPipe(jsonObject, merges[0]!))
+      const piped = dialect.sqlToQuery(
+        jsonSetPipe(jsonObject, merges[0]!, ...merges.slice(1)),
+      )
+
+      expect(piped.params).toEqual(Array(8).fill('"dark"'))
+      expect(piped.sql.split(jsonObjectSql)).toHaveLength(2)
+      expect(piped.sql.length).toBeLessThan(single.sql.length * 8)
+    })
+
+    it('types the partial value', () => {
+      const setter = jsonSet(jsonObject)
+
+      expectTypeOf(setter.profile.$merge({ avatar: 'x' })).toEqualTypeOf<
+        SQL<JsonType>
+      >()
+      setter.profile.$merge({ settings: { theme: 'dark' } }, { deep: true })
+      // @ts-expect-error - shallow merge replaces nested objects entirely
+      setter.profile.$merge({ settings: { theme: 'dark' } })
+      // @ts-expect-error - unknown property
+      setter.profile.$merge({ unknown: 1 })
+      expectTypeOf(setter.name).not.toHaveProperty('$merge')
+      expectTypeOf(setter.tags).not.toHaveProperty('$merge')
+      expectTypeOf(setter.optionalObject).toHaveProperty('$merge')
+    })
+  })
+
   describe('Set with default values', () => {
     it('sets default values for missing properties', () => {
       const setter = jsonSet(jsonObject)
@@ -0,0 +1,170 @@
+import { type SQL, sql } from 'drizzle-orm'
+import { integer, jsonb, QueryBuilder, text } from 'drizzle-orm/pg-core'
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import {
+  assertJSONTableSupport,
+  jsonTable,
+} from '../../src/json/operations/table.ts'
+
+describe('JSON Table', () => {
+  type Order = {
+    items: Array<{
+      sku: string
+      qty: number
+      shipping?: { city: string }
+      tags: Array<{ name: string; codes: string[] }>
+    }>
+  }
+
+  const qb = new QueryBuilder()
+  const orders = sql<Order>`data`
+
+  describe('SQL Generation', () => {
+    it('builds columns from the row path', () => {
+      const item = jsonTable(orders, 'item', {
+        path: (root) => root.items.$each,
+        columns: (item) => ({
+          sku: text().notNull(),
+          quantity: integer('qty'),
+          city: { column: text(), path: item.shipping.city },
+        }),
+      })
+      const select = qb.select().from(item)
+
+      expect(select.toSQL().sql).toBe(
+        `select "sku", "qty", "city" from (select * from json_table(data, '$."items"[*]' columns ("sku" text path '$."sku"', "qty" integer path '$."qty"', "city" text path '$."shipping"."city"')) as "item") "item"`,
+      )
+      expectTypeOf<(typeof select)['_']['result']>().toEqualTypeOf<
+        Array<{ sku: string; quantity: number | null; city: string | null }>
+      >()
+    })
+
+    it('builds nested paths', () => {
+      const item = jsonTable(orders, 'item', {
+        path: (root) => root.items.$each,
+        columns: { sku: text() },
+        nested: [
+          {
+            path: (item) => item.tags.$each,
+            columns: { tag: text('name') },
+            nested: {
+              path: (item) => item.tags.$each.codes.$each,
+              columns: (item) => ({
+                code: { column: text(), path: item.tags.$each.codes.$each },
+              }),
+            },
+          },
+          {
+            path: (item) => item.shipping,
+            columns: (item) => ({
+              shipping: { column: jsonb(), path: item.shipping },
+            }),
+          },
+        ],
+      })
+      const query = qb.select({ sku: item.sku, code: item.code }).from(item)
+
+      expect(query.toSQL().sql).toBe(
+        `select "sku", "code" from (select * from json_table(data, '$."items"[*]' columns ("sku" text path '$."sku"', nested path '$."tags"[*]' columns ("name" text path '$."name"', nested path '$."codes"[*]' columns ("code" text path '$')), nested path '$."shipping"' columns ("shipping" jsonb path '$'))) as "item") "item"`,
+      )
+      expectTypeOf(item.tag.getSQLType).toBeFunction()
+      expectTypeOf<
+        (typeof query)['_']['result'][number]['code']
+      >().toEqualTypeOf<string | null>()
+      expectTypeOf<
+        (typeof item)['shipping']['_']['data']
+      >().toEqualTypeOf<unknown>()
+    })
+
+    it('types paths from the source', () => {
+      jsonTable(orders, 'item', {
+        // @ts-expect-error - unknown member
+        path: (root) => root.missing.$each,
+        columns: { sku: text() },
+      })
+      jsonTable(orders, 'item', {
+        path: (root) => root.items.$each,
+        columns: (item) => ({
+          // @ts-expect-error - unknown member of the row
+          city: { column: text(), path: item.shiping.city },
+        }),
+        nested: {
+          path: (item) => item.tags.$each,
+          columns: (item) => ({
+            // @ts-expect-error - unknown member of the nested row
+            tag: { column: text(), path: item.tags.$each.nme },
+          }),
+        },
+      })
+      expectTypeOf(
+        jsonTable(orders, 'item', {
+          path: (root) => root.items.$each,
+          columns: { sku: text() },
+        }).sku,
+      )
+        .toHaveProperty('_')
+        .toHaveProperty('data')
+        .toEqualTypeOf<string>()
+    })
+
+    it('rejects invalid columns', () => {
+      expect(() =>
+        jsonTable(orders, 'item', {
+          path: (root) => root.items.$each,
+          columns: { sku: text() },
+          nested: { path: (item) => item.tags.$each, columns: { sku: text() } },
+        }),
+      ).toThrow('Duplicate JSON_TABLE column: sku')
+      expect(() =>
+        jsonTable(orders, 'item', {
+          path: (root) => root.items.$each,
+          columns: { sku: text() },
+          nested: {
+            path: (item) => item.tags.$each,
+            columns: (item) => ({
+              city: { column: text(), path: item.shipping.city },
+            }),
+          },
+        }),
+      ).toThrow(
+        'JSON_TABLE path $."shipping"."city" is not inside the nested path $."tags"[*]',
+      )
+      expect(() =>
+        jsonTable(orders, 'item', {
+          path: (root) => root.items.$each,
+          columns: {},
+        }),
+      ).toThrow('jsonTable requires at least one column')
+    })
+  })
+
+  describe('Server Support', () => {
+    const database = (version: string, versionNum: string) => ({
+      execute: async (_: SQL) => ({
+        rows: [{ version, version_num: versionNum }],
+      }),
+    })
+
+    it('accepts PostgreSQL 17', async () => {
+      await expect(
+        assertJSONTableSupport(database('17.4', '170004')),
+      ).resolves.toBeUndefined()
+    })
+
+    it('rejects older servers', async () => {
+      await expect(
+        assertJSONTableSupport(database('16.2', '160002')),
+      ).rejects.toThrow(
+        'JSON_TABLE requires PostgreSQL 17 or later, the server runs PostgreSQL 16.2',
+      )
+    })
+
+    it('reads rows returned as an array', async () => {
+      await expect(
+        assertJSONTableSupport({
+          execute: async () => [{ version: '15.1', version_num: '150001' }],
+        }),
+      ).rejects.toThrow('the server runs PostgreSQL 15.1')
+    })
+  })
+})